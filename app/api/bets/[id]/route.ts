@@ -0,0 +1,52 @@
+import { apiDisabled, betErrors, errorResponse, isRecord, profileOf, readBody } from '@/lib/server/http';
+import { applyDelete, applyUpsert, readStore, updateStore } from '@/lib/server/store';
+import { Bet } from '@/lib/types';
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(req: Request, { params }: Params) {
+  const disabled = apiDisabled();
+  if (disabled) return disabled;
+  const profile = profileOf(req);
+  if (!profile) return errorResponse(400, 'Bad profile id');
+  const { id } = await params;
+  const bet = (await readStore(profile)).bets.find(b => b.id === id);
+  return bet ? Response.json({ bet }) : errorResponse(404, 'Bet not found');
+}
+
+// Body is { bet, baseUpdatedAt }, 409 with the server's copy when it changed since baseUpdatedAt
+export async function PUT(req: Request, { params }: Params) {
+  const disabled = apiDisabled();
+  if (disabled) return disabled;
+  const profile = profileOf(req);
+  if (!profile) return errorResponse(400, 'Bad profile id');
+  const { id } = await params;
+  const body = await readBody(req);
+  if (!isRecord(body)) return errorResponse(400, 'Expected { bet, baseUpdatedAt }');
+  const errors = betErrors(body.bet);
+  if (errors.length) return errorResponse(400, 'Invalid bet', errors);
+  const bet = body.bet as Bet;
+  if (bet.id !== id) return errorResponse(400, 'Bet id does not match the URL');
+  const baseUpdatedAt = typeof body.baseUpdatedAt === 'string' ? body.baseUpdatedAt : undefined;
+  const conflict = await updateStore(profile, data => {
+    const c = applyUpsert(data, { bet, baseUpdatedAt });
+    return { save: !c, result: c };
+  });
+  return conflict ? Response.json(conflict, { status: 409 }) : Response.json({ bet });
+}
+
+// ?baseUpdatedAt= is required, so a bet changed elsewhere is never deleted blind
+export async function DELETE(req: Request, { params }: Params) {
+  const disabled = apiDisabled();
+  if (disabled) return disabled;
+  const profile = profileOf(req);
+  if (!profile) return errorResponse(400, 'Bad profile id');
+  const { id } = await params;
+  const baseUpdatedAt = new URL(req.url).searchParams.get('baseUpdatedAt');
+  if (!baseUpdatedAt) return errorResponse(400, 'baseUpdatedAt is required');
+  const conflict = await updateStore(profile, data => {
+    const c = applyDelete(data, { id, baseUpdatedAt });
+    return { save: !c, result: c };
+  });
+  return conflict ? Response.json(conflict, { status: 409 }) : new Response(null, { status: 204 });
+}
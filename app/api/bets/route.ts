@@ -0,0 +1,63 @@
+import { BetBatch, BetBatchResult, BetConflict } from '@/lib/api';
+import { apiDisabled, betErrors, errorResponse, isRecord, profileOf, readBody } from '@/lib/server/http';
+import { applyDelete, applyUpsert, readStore, updateStore } from '@/lib/server/store';
+import { Bet } from '@/lib/types';
+
+export async function GET(req: Request) {
+  const disabled = apiDisabled();
+  if (disabled) return disabled;
+  const profile = profileOf(req);
+  if (!profile) return errorResponse(400, 'Bad profile id');
+  const { bets } = await readStore(profile);
+  return Response.json({ bets });
+}
+
+// Creates one bet, 409 when the id is already taken
+export async function POST(req: Request) {
+  const disabled = apiDisabled();
+  if (disabled) return disabled;
+  const profile = profileOf(req);
+  if (!profile) return errorResponse(400, 'Bad profile id');
+  const body = await readBody(req);
+  const errors = betErrors(body);
+  if (errors.length) return errorResponse(400, 'Invalid bet', errors);
+  const bet = body as Bet;
+  const conflict = await updateStore(profile, data => {
+    const c = applyUpsert(data, { bet });
+    return { save: !c, result: c };
+  });
+  return conflict ? Response.json(conflict, { status: 409 }) : Response.json({ bet }, { status: 201 });
+}
+
+// Batch of creates, updates and deletes from a client's optimistic edits. Changes that conflict are
+// skipped and returned with the server's copy, the rest are applied.
+export async function PATCH(req: Request) {
+  const disabled = apiDisabled();
+  if (disabled) return disabled;
+  const profile = profileOf(req);
+  if (!profile) return errorResponse(400, 'Bad profile id');
+  const body = await readBody(req);
+  if (!isRecord(body) || !Array.isArray(body.upserts) || !Array.isArray(body.deletes)) return errorResponse(400, 'Expected upserts and deletes');
+  const batch = body as BetBatch;
+  const errors = batch.upserts.flatMap(u => (isRecord(u) ? betErrors(u.bet) : ['bad change']));
+  if (batch.deletes.some(d => !isRecord(d) || typeof d.id !== 'string' || typeof d.baseUpdatedAt !== 'string')) errors.push('bad delete');
+  if (errors.length) return errorResponse(400, 'Invalid batch', errors);
+
+  const result = await updateStore<BetBatchResult>(profile, data => {
+    const conflicts: BetConflict[] = [];
+    const saved: Bet[] = [];
+    const deleted: string[] = [];
+    for (const change of batch.upserts) {
+      const c = applyUpsert(data, change);
+      if (c) conflicts.push(c);
+      else saved.push(change.bet);
+    }
+    for (const change of batch.deletes) {
+      const c = applyDelete(data, change);
+      if (c) conflicts.push(c);
+      else deleted.push(change.id);
+    }
+    return { save: saved.length > 0 || deleted.length > 0, result: { saved, deleted, conflicts } };
+  });
+  return Response.json(result);
+}
@@ -0,0 +1,21 @@
+import { apiDisabled, errorResponse, isRecord, PROFILE_ID, readBody } from '@/lib/server/http';
+import { readProfiles, writeProfiles } from '@/lib/server/store';
+import { Profile } from '@/lib/types';
+
+export async function GET() {
+  const disabled = apiDisabled();
+  if (disabled) return disabled;
+  return Response.json({ profiles: await readProfiles() });
+}
+
+// Body is { profiles }, the whole list. Responds with the list as saved.
+export async function PUT(req: Request) {
+  const disabled = apiDisabled();
+  if (disabled) return disabled;
+  const body = await readBody(req);
+  if (!isRecord(body) || !Array.isArray(body.profiles) || !body.profiles.length) return errorResponse(400, 'Expected { profiles }');
+  const profiles = body.profiles as unknown[];
+  const bad = profiles.filter(p => !isRecord(p) || typeof p.id !== 'string' || !PROFILE_ID.test(p.id) || typeof p.name !== 'string' || !p.name.trim());
+  if (bad.length) return errorResponse(400, 'Invalid profiles', bad.map(p => JSON.stringify(p)));
+  return Response.json({ profiles: await writeProfiles(profiles as Profile[]) });
+}
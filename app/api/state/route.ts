@@ -0,0 +1,36 @@
+import { StateResponse } from '@/lib/api';
+import { apiDisabled, errorResponse, isRecord, profileOf, readBody } from '@/lib/server/http';
+import { readQuarantined, readStore, updateStore } from '@/lib/server/store';
+import { checkLedger } from '@/lib/storage';
+
+export async function GET(req: Request) {
+  const disabled = apiDisabled();
+  if (disabled) return disabled;
+  const profile = profileOf(req);
+  if (!profile) return errorResponse(400, 'Bad profile id');
+  const { state, stateUpdatedAt } = await readStore(profile);
+  const quarantined = await readQuarantined(profile);
+  return Response.json({ state, updatedAt: stateUpdatedAt, quarantined } satisfies StateResponse);
+}
+
+// Body is { state, baseUpdatedAt }, 409 with the server's settings when they changed since baseUpdatedAt
+export async function PUT(req: Request) {
+  const disabled = apiDisabled();
+  if (disabled) return disabled;
+  const profile = profileOf(req);
+  if (!profile) return errorResponse(400, 'Bad profile id');
+  const body = await readBody(req);
+  if (!isRecord(body) || !isRecord(body.state)) return errorResponse(400, 'Expected { state, baseUpdatedAt }');
+  const checked = checkLedger({ bets: [], state: body.state });
+  if (checked.issues.length) return errorResponse(400, 'Invalid settings', checked.issues.map(i => i.message));
+  const baseUpdatedAt = typeof body.baseUpdatedAt === 'string' ? body.baseUpdatedAt : null;
+
+  const result = await updateStore<{ ok: boolean } & StateResponse>(profile, data => {
+    if (data.stateUpdatedAt !== baseUpdatedAt) return { save: false, result: { ok: false, state: data.state, updatedAt: data.stateUpdatedAt } };
+    data.state = checked.state;
+    data.stateUpdatedAt = new Date().toISOString();
+    return { save: true, result: { ok: true, state: data.state, updatedAt: data.stateUpdatedAt } };
+  });
+  const { ok, ...response } = result;
+  return Response.json(response satisfies StateResponse, { status: ok ? 200 : 409 });
+}
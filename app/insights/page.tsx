@@ -1,50 +1,211 @@
 'use client';
 
-import React, { Suspense, useEffect, useMemo, useState } from 'react';
+import React, { Suspense, useEffect, useMemo, useRef, useState } from 'react';
 import Link from 'next/link';
 import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import ProfileSwitcher from '@/components/ProfileSwitcher';
+import StorageBanner from '@/components/StorageBanner';
+import SyncBanner from '@/components/SyncBanner';
+import { cashStake, defaultReturn, effectiveReturn, isBetSettled, isCashStake, isSettled, outcomeWeight, remainingStake, runOutcome } from '@/lib/bets';
+import { baseCurrency, betCurrency, formatMoney, inBaseCurrency } from '@/lib/currency';
+import { closingLineValue, formatOdds, ODDS_FORMAT_LABEL, parseOdds } from '@/lib/odds';
+import { queryBets } from '@/lib/db';
+import { STORAGE_MODE } from '@/lib/config';
+import { useServerSync } from '@/lib/sync';
+import { useTabSync } from '@/lib/tabs';
+import { recordChange } from '@/lib/history';
+import { Profiles, profileSummary, ProfileSummary, readProfileLedger, useProfiles } from '@/lib/profiles';
+import { BETS_KEY, checkLedger, DEFAULT_STATE, loadLedger, migrateLedger, saveBets, saveState, SCHEMA_VERSION, STATE_KEY, StorageIssue } from '@/lib/storage';
+import { edgeSignificance, hasEnoughSample, Interval, MIN_SAMPLE, roiInterval, wilsonInterval } from '@/lib/stats';
+import { breakdown, Dimension, DIMENSION_LABEL, DIMENSIONS, groupKeys, marketsFor, matchSport, parseTags, sportDefs, sportNames } from '@/lib/taxonomy';
+import { AppState, Bet, BetStatus, CURRENCIES, CurrencyCode, ODDS_FORMATS, OddsFormat, Profile, Sport, STAKE_TYPES, StakeType } from '@/lib/types';
 
-// -------- Types --------
-type Sport = 'Football' | 'Cricket' | 'Tennis' | 'Other';
-type BetStatus = 'Pending' | 'Won' | 'Lost';
-type FootballCategory = 'Goals' | 'Corners' | 'Result' | 'Double Chance' | 'Other';
-type FootballCategoryKey = FootballCategory | 'Uncategorised';
-
-type Bet = {
-  id: string;
-  date: string;          // yyyy-mm-dd
-  description: string;
-  sport: Sport;
-  category?: FootballCategory;
-  stake: number;         // GBP
-  oddsDecimal: number;
-  status: BetStatus;
-  returnOverride?: number;
-  settledAt?: string;
-  createdAt: string;
-  updatedAt: string;
-};
+// Backup of one profile's bets and settings, versioned with the storage schema
+const BACKUP_FORMAT = 'roller-bets-backup';
 
-type AppState = {
-  targetProfit: number;
-  startingBankroll?: number;
-  theme: 'dark' | 'light';
+type Backup = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  profile?: Profile; // the profile it was taken from, absent in backups from before profiles
+  data: { [BETS_KEY]: Bet[]; [STATE_KEY]: AppState };
 };
 
+// CSV import columns, in the order of our own export
+type ImportField = 'date' | 'description' | 'sport' | 'market' | 'tags' | 'stake' | 'stakeType' | 'currency' | 'odds' | 'status' | 'return' | 'competition' | 'home' | 'away' | 'kickoff' | 'places' | 'placeTerms';
+const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean; aliases: string[] }[] = [
+  { field: 'date', label: 'Date', required: true, aliases: ['date', 'placed', 'bet date', 'date placed', 'settled date'] },
+  { field: 'description', label: 'Bet', required: true, aliases: ['description', 'bet', 'selection', 'event', 'details', 'market'] },
+  { field: 'sport', label: 'Sport', required: false, aliases: ['sport'] },
+  { field: 'market', label: 'Market', required: false, aliases: ['market', 'category', 'bet type', 'market type'] },
+  { field: 'tags', label: 'Tags', required: false, aliases: ['tags', 'tag', 'labels'] },
+  { field: 'stake', label: 'Stake', required: true, aliases: ['stake', 'amount', 'wager', 'stake (£)', 'total stake'] },
+  { field: 'stakeType', label: 'Stake type', required: false, aliases: ['staketype', 'stake type'] },
+  { field: 'currency', label: 'Currency', required: false, aliases: ['currency', 'ccy'] },
+  { field: 'odds', label: 'Odds', required: true, aliases: ['oddsdecimal', 'odds', 'price', 'decimal odds'] },
+  { field: 'status', label: 'Status', required: false, aliases: ['status', 'result', 'outcome'] },
+  { field: 'return', label: 'Return', required: false, aliases: ['return', 'returns', 'payout', 'winnings'] },
+  { field: 'competition', label: 'Competition', required: false, aliases: ['competition', 'league', 'tournament', 'meeting'] },
+  { field: 'home', label: 'Home', required: false, aliases: ['home', 'home team', 'player', 'player 1'] },
+  { field: 'away', label: 'Away', required: false, aliases: ['away', 'away team', 'opponent', 'player 2'] },
+  { field: 'kickoff', label: 'Kickoff', required: false, aliases: ['kickoff', 'kick off', 'kick-off', 'start time', 'event time', 'event date'] },
+  { field: 'places', label: 'EW places', required: false, aliases: ['places', 'ew places', 'each way places'] },
+  { field: 'placeTerms', label: 'EW terms', required: false, aliases: ['placeterms', 'place terms', 'ew terms', 'each way terms', 'place fraction'] },
+];
+type ImportMapping = Record<ImportField, number>; // column index, -1 when unmapped
+
 // -------- Utilities --------
-const currency = new Intl.NumberFormat('en-GB', { style: 'currency', currency: 'GBP' });
 const percentFmt = new Intl.NumberFormat('en-GB', { style: 'percent', minimumFractionDigits: 0, maximumFractionDigits: 0 });
+const clvFmt = new Intl.NumberFormat('en-GB', { style: 'percent', minimumFractionDigits: 1, maximumFractionDigits: 1, signDisplay: 'exceptZero' });
+
+// Rows of the profile comparison, each profile's money is in its own base currency
+const COMPARE_ROWS: { label: string; show: (s: ProfileSummary) => string; num?: (s: ProfileSummary) => number }[] = [
+  { label: 'Bets', show: s => String(s.bets) },
+  { label: 'Pending', show: s => String(s.pending) },
+  { label: 'Staked', show: s => formatMoney(s.staked, s.currency) },
+  { label: 'Profit', show: s => formatMoney(s.profit, s.currency), num: s => s.profit },
+  { label: 'ROI', show: s => percentFmt.format(s.roi), num: s => s.roi },
+  { label: 'Win rate', show: s => percentFmt.format(s.winRate) },
+  { label: 'Bankroll', show: s => formatMoney(s.bankroll, s.currency) },
+  { label: 'Goal progress', show: s => percentFmt.format(s.progress) },
+];
+
+// Lower edge of each odds band, the last one is open ended
+const ODDS_BAND_EDGES = [1.01, 1.5, 2, 3, 5];
 
-function isSettled(s: BetStatus) { return s === 'Won' || s === 'Lost'; }
-function defaultReturn(b: Bet): number | null {
-  if (b.status === 'Won') return +(b.stake * b.oddsDecimal).toFixed(2);
-  if (b.status === 'Lost') return 0;
+const uid = () => Math.random().toString(36).slice(2) + Date.now().toString(36);
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+// Throws with a readable message when the file is not a backup we can restore. Older backups are migrated first.
+function parseBackup(text: string): Backup {
+  let raw: unknown;
+  try { raw = JSON.parse(text); } catch { throw new Error('File is not valid JSON'); }
+  if (!isRecord(raw) || raw.format !== BACKUP_FORMAT) throw new Error('File is not a Roller Bets backup');
+  if (typeof raw.version !== 'number' || raw.version > SCHEMA_VERSION) throw new Error(`Unsupported backup version ${String(raw.version)}`);
+  const data = raw.data;
+  if (!isRecord(data)) throw new Error('Backup has no data');
+  if (!Array.isArray(data[BETS_KEY])) throw new Error('Backup has no bets list');
+  if (!isRecord(data[STATE_KEY])) throw new Error('Backup has no settings');
+  const checked = checkLedger(migrateLedger({ bets: data[BETS_KEY], state: data[STATE_KEY] }, raw.version));
+  if (checked.issues.length) {
+    throw new Error(`${checked.issues.length} invalid record${checked.issues.length === 1 ? '' : 's'}, first: ${checked.issues[0].message}`);
+  }
+  const profile = isRecord(raw.profile) && typeof raw.profile.id === 'string' && typeof raw.profile.name === 'string'
+    ? { id: raw.profile.id, name: raw.profile.name }
+    : undefined;
+  return { format: BACKUP_FORMAT, version: raw.version, exportedAt: String(raw.exportedAt ?? ''), profile, data: { [BETS_KEY]: checked.bets, [STATE_KEY]: checked.state } };
+}
+// Minimal RFC 4180 reader, also accepts semicolon separated statements
+function parseCSV(text: string): string[][] {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const sep = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === sep) { row.push(cell); cell = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell); cell = '';
+      if (row.some(c => c.trim() !== '')) rows.push(row);
+      row = [];
+    } else cell += ch;
+  }
+  row.push(cell);
+  if (row.some(c => c.trim() !== '')) rows.push(row);
+  return rows;
+}
+function guessMapping(header: string[]): ImportMapping {
+  const names = header.map(h => h.trim().toLowerCase());
+  const mapping = {} as ImportMapping;
+  for (const f of IMPORT_FIELDS) mapping[f.field] = names.findIndex(n => f.aliases.includes(n));
+  return mapping;
+}
+function parseMoney(raw: string): number | null {
+  const v = Number(raw.replace(/[£$€,\s]/g, ''));
+  return raw.trim() !== '' && Number.isFinite(v) ? v : null;
+}
+function parseStatus(raw: string): BetStatus | null {
+  const t = raw.trim().toLowerCase();
+  if (t === '' || ['pending', 'open', 'unsettled', 'running', 'active'].includes(t)) return 'Pending';
+  if (['won', 'win', 'w', 'winner', 'paid'].includes(t)) return 'Won';
+  if (['lost', 'lose', 'loss', 'l', 'loser'].includes(t)) return 'Lost';
+  if (['void', 'push', 'refund', 'refunded', 'cancelled', 'non-runner'].includes(t)) return 'Void';
+  if (['half won', 'half-won', 'half win', 'half-win'].includes(t)) return 'Half Won';
+  if (['half lost', 'half-lost', 'half loss', 'half-loss'].includes(t)) return 'Half Lost';
+  if (['placed', 'place', 'each way placed', 'ew placed'].includes(t)) return 'Placed';
   return null;
 }
-function effectiveReturn(b: Bet): number | null {
-  if (!isSettled(b.status)) return null;
-  if (b.returnOverride !== undefined && b.returnOverride !== null) return +b.returnOverride.toFixed(2);
-  return defaultReturn(b);
+// The share of the win odds paid for a place, as exported (1/5) or as a decimal (0.2)
+function parsePlaceTerms(raw: string): number | null {
+  const t = raw.trim().replace(/\s*odds$/i, '');
+  const frac = t.match(/^(\d+)\s*\/\s*(\d+)$/);
+  const v = frac ? Number(frac[1]) / Number(frac[2]) : Number(t);
+  return t !== '' && Number.isFinite(v) && v > 0 && v <= 1 ? v : null;
+}
+// yyyy-mm-dd, ISO timestamps, or UK style dd/mm/yyyy and dd/mm/yy
+function parseDate(raw: string): string | null {
+  const t = raw.trim();
+  let y: number, m: number, d: number;
+  const iso = t.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  const uk = t.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})\b/);
+  if (iso) [y, m, d] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  else if (uk) [d, m, y] = [Number(uk[1]), Number(uk[2]), uk[3].length === 2 ? 2000 + Number(uk[3]) : Number(uk[3])];
+  else return null;
+  const dt = new Date(y, m - 1, d);
+  if (dt.getFullYear() !== y || dt.getMonth() !== m - 1 || dt.getDate() !== d) return null;
+  return `${y}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+}
+// A date with an optional hh:mm after a space or T, midnight when the time is missing
+function parseKickoff(raw: string): string | null {
+  const date = parseDate(raw);
+  if (!date) return null;
+  const time = raw.trim().match(/[ T](\d{1,2}):(\d{2})/);
+  if (!time) return `${date}T00:00`;
+  const [h, m] = [Number(time[1]), Number(time[2])];
+  return h < 24 && m < 60 ? `${date}T${String(h).padStart(2, '0')}:${time[2]}` : null;
+}
+// Blank means cash
+function parseStakeType(raw: string): StakeType | null {
+  const t = raw.trim().toLowerCase();
+  if (t === '') return 'Cash';
+  if (['free', 'freebet', 'free bet', 'free-bet'].includes(t)) return 'Free bet';
+  return STAKE_TYPES.find(s => s.toLowerCase() === t) ?? null;
+}
+function parseCurrency(raw: string): CurrencyCode | null {
+  const t = raw.trim().toUpperCase();
+  return CURRENCIES.find(c => c === t) ?? null;
+}
+function duplicateKey(b: Pick<Bet, 'date' | 'description' | 'stake' | 'oddsDecimal'>) {
+  return [b.date, b.description.trim().toLowerCase().replace(/\s+/g, ' '), b.stake.toFixed(2), b.oddsDecimal.toFixed(2)].join('|');
+}
+// Newer updatedAt wins for bets present on both sides
+function mergeBets(current: Bet[], incoming: Bet[]) {
+  const byId = new Map(current.map(b => [b.id, b]));
+  for (const b of incoming) {
+    const cur = byId.get(b.id);
+    if (!cur || b.updatedAt > cur.updatedAt) byId.set(b.id, b);
+  }
+  return Array.from(byId.values());
+}
+
+// Settings lists on restore: entries already here win, the backup only adds what is missing
+function mergeByKey<T>(current: T[] = [], incoming: T[] = [], key: (item: T) => string, combine?: (cur: T, inc: T) => T) {
+  const byKey = new Map(current.map(item => [key(item), item]));
+  for (const item of incoming) {
+    const cur = byKey.get(key(item));
+    byKey.set(key(item), cur ? (combine ? combine(cur, item) : cur) : item);
+  }
+  return Array.from(byKey.values());
 }
 function median(nums: number[]) {
   if (nums.length === 0) return 0;
@@ -65,6 +226,37 @@ function dayName(isoDate: string) {
   return ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'][dt.getDay()];
 }
 
+// -------- Evidence --------
+const LOW_SAMPLE_HINT = `Fewer than ${MIN_SAMPLE} settled bets, too few to tell skill from luck`;
+
+// Greys out a table row that has too few bets to read anything into
+function rowClass(settled: number) {
+  return 'border-b border-slate-800/80' + (hasEnoughSample(settled) ? '' : ' opacity-50');
+}
+
+// A percentage with its 95% interval underneath
+function WithInterval({ value, ci }: { value: number; ci: Interval | null }) {
+  return (
+    <>
+      {percentFmt.format(value)}
+      {ci && <div className="text-xs opacity-60 whitespace-nowrap">{percentFmt.format(ci.low)} to {percentFmt.format(ci.high)}</div>}
+    </>
+  );
+}
+
+function SampleCount({ settled }: { settled: number }) {
+  return (
+    <>
+      {settled}
+      {!hasEnoughSample(settled) && <span className="ml-1 text-xs px-1.5 py-0.5 rounded-md bg-slate-700" title={LOW_SAMPLE_HINT}>low</span>}
+    </>
+  );
+}
+
+function formatP(p: number) {
+  return p < 0.001 ? '<0.001' : p.toFixed(3);
+}
+
 // -------- Page wrapper with Suspense --------
 export default function InsightsPage() {
   return (
@@ -79,29 +271,58 @@ export default function InsightsPage() {
 }
 
 // -------- Main content that uses router hooks --------
+// Remounted per profile, like the tracker
 function InsightsInner() {
+  const profiles = useProfiles();
+  if (!profiles.activeId) {
+    return (
+      <div className="max-w-6xl mx-auto px-4 py-6">
+        <div className="text-center py-12"><div className="text-lg">Loading insights…</div></div>
+      </div>
+    );
+  }
+  return <ProfileInsights key={profiles.activeId} profileId={profiles.activeId} profiles={profiles} />;
+}
+
+function ProfileInsights({ profileId, profiles }: { profileId: string; profiles: Profiles }) {
   const [isClient, setIsClient] = useState(false);
-  const [state, setState] = useState<AppState>({ targetProfit: 100, theme: 'dark' });
+  const [state, setState] = useState<AppState>(DEFAULT_STATE);
   const [bets, setBets] = useState<Bet[]>([]);
+  const [storageIssues, setStorageIssues] = useState<StorageIssue[]>([]);
   const router = useRouter();
   const pathname = usePathname();
   const searchParams = useSearchParams();
 
   useEffect(() => {
-    setIsClient(true);
-    try {
-      const rawState = localStorage.getItem('rb.state');
-      if (rawState) setState(JSON.parse(rawState) as AppState);
-      const rawBets = localStorage.getItem('rb.bets');
-      if (rawBets) setBets(JSON.parse(rawBets) as Bet[]);
-    } catch {}
-  }, []);
+    loadLedger(profileId).then(loaded => {
+      setState(loaded.state);
+      setBets(loaded.bets);
+      setStorageIssues(loaded.issues);
+      setIsClient(true);
+    }, () => {
+      setStorageIssues([{ source: BETS_KEY, message: 'the browser database could not be opened' }]);
+    });
+  }, [profileId]);
 
   useEffect(() => {
     if (!isClient) return;
     document.documentElement.classList.toggle('dark', state.theme === 'dark');
   }, [state.theme, isClient]);
 
+  // Imports, restores and settings changes below save locally first, this sends them on
+  const sync = useServerSync({ ready: isClient, profileId, bets, state, setBets, setState });
+  useTabSync({ ready: isClient, profileId, setBets, setState });
+
+  const base = baseCurrency(state);
+  const money = (amount: number, code: CurrencyCode = base) => formatMoney(amount, code);
+  const oddsFormat = state.oddsFormat ?? 'decimal';
+  const fmtOdds = (decimal: number) => formatOdds(decimal, oddsFormat);
+  function setOddsFormat(f: OddsFormat) {
+    const next = { ...state, oddsFormat: f };
+    saveState(profileId, next);
+    setState(next);
+  }
+
   const card = 'rounded-2xl p-4 bg-slate-900/60 border border-slate-800 shadow-lg';
   const btnGhost = 'rounded-xl px-3 py-2 text-sm font-medium bg-slate-800/60 hover:bg-slate-700/60 border border-slate-700';
   const field = 'w-full rounded-xl bg-slate-900/50 border border-slate-700 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500';
@@ -116,12 +337,7 @@ function InsightsInner() {
     const qsFrom = searchParams.get('from');
     const qsTo = searchParams.get('to');
     const next: { sport: Sport | 'All'; from?: string; to?: string } = {
-      sport:
-        qsSport === 'Football' || qsSport === 'Cricket' || qsSport === 'Tennis' || qsSport === 'Other'
-          ? qsSport
-          : qsSport === 'All'
-          ? 'All'
-          : filter.sport,
+      sport: qsSport ? qsSport : filter.sport,
       from: qsFrom || undefined,
       to: qsTo || undefined,
     };
@@ -141,40 +357,48 @@ function InsightsInner() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [filter, isClient, pathname, router]);
 
-  // Apply filters to data source
-  const filteredBets = useMemo(() => {
-    return bets.filter(b => {
-      if (filter.sport !== 'All' && b.sport !== filter.sport) return false;
-      if (filter.from && b.date < filter.from) return false;
-      if (filter.to && b.date > filter.to) return false;
-      return true;
-    });
-  }, [bets, filter]);
+  // Apply filters through the database indexes. Every write is saved before setBets, so the query sees it.
+  const [nativeFilteredBets, setNativeFilteredBets] = useState<Bet[]>([]);
+  useEffect(() => {
+    if (!isClient) return;
+    let current = true;
+    queryBets(profileId, { sport: filter.sport === 'All' ? undefined : filter.sport, from: filter.from, to: filter.to })
+      .then(rows => { if (current) setNativeFilteredBets(rows); });
+    return () => { current = false; };
+  }, [isClient, profileId, bets, filter]);
+
+  // Every table below works in the base currency
+  const filteredBets = useMemo(() => nativeFilteredBets.map(b => inBaseCurrency(b, state)), [nativeFilteredBets, state]);
+  // Free bets and bonus stakes are reported under promotions, ROI and hit rate are about cash
+  const cashBets = useMemo(() => filteredBets.filter(isCashStake), [filteredBets]);
 
   // Key metrics
   const metrics = useMemo(() => {
-    const settled = filteredBets.filter(b => isSettled(b.status));
-    const pending = filteredBets.filter(b => b.status === 'Pending');
+    const settled = cashBets.filter(b => isBetSettled(b));
+    const pending = cashBets.filter(b => !isBetSettled(b));
 
-    const stakedAll = +filteredBets.reduce((s, b) => s + b.stake, 0).toFixed(2);
+    const stakedAll = +cashBets.reduce((s, b) => s + b.stake, 0).toFixed(2);
     const stakedSettled = +settled.reduce((s, b) => s + b.stake, 0).toFixed(2);
     const returned = +settled.reduce((s, b) => s + (effectiveReturn(b) ?? 0), 0).toFixed(2);
     const profit = +(returned - stakedSettled).toFixed(2);
 
-    const wins = settled.filter(b => b.status === 'Won').length;
-    const hitRate = settled.length ? wins / settled.length : 0;
+    const weighted = settled.reduce((acc, b) => {
+      const w = outcomeWeight(b.status);
+      return { settled: acc.settled + w.settled, won: acc.won + w.won };
+    }, { settled: 0, won: 0 });
+    const hitRate = weighted.settled ? weighted.won / weighted.settled : 0;
     const roi = stakedSettled > 0 ? profit / stakedSettled : 0;
 
     const avgOdds = settled.length ? +(settled.reduce((s, b) => s + b.oddsDecimal, 0) / settled.length).toFixed(2) : 0;
-    const avgStake = filteredBets.length ? +(filteredBets.reduce((s, b) => s + b.stake, 0) / filteredBets.length).toFixed(2) : 0;
-    const medStake = +median(filteredBets.map(b => b.stake)).toFixed(2);
+    const avgStake = cashBets.length ? +(cashBets.reduce((s, b) => s + b.stake, 0) / cashBets.length).toFixed(2) : 0;
+    const medStake = +median(cashBets.map(b => b.stake)).toFixed(2);
     const profitPerBet = settled.length ? +(profit / settled.length).toFixed(2) : 0;
 
-    const pendingStake = +pending.reduce((s, b) => s + b.stake, 0).toFixed(2);
-    const pendingPotentialReturn = +pending.reduce((s, b) => s + b.stake * b.oddsDecimal, 0).toFixed(2);
+    const pendingStake = +pending.reduce((s, b) => s + remainingStake(b), 0).toFixed(2);
+    const pendingPotentialReturn = +pending.reduce((s, b) => s + remainingStake(b) * b.oddsDecimal, 0).toFixed(2);
 
     return {
-      totalBets: filteredBets.length,
+      totalBets: cashBets.length,
       settled: settled.length,
       pending: pending.length,
       stakedAll,
@@ -190,13 +414,13 @@ function InsightsInner() {
       pendingStake,
       pendingPotentialReturn,
     };
-  }, [filteredBets]);
+  }, [cashBets]);
 
   // Monthly PnL from settled bets
   const monthly = useMemo(() => {
     const m = new Map<string, { staked: number; returned: number; profit: number }>();
-    for (const b of filteredBets) {
-      if (!isSettled(b.status)) continue;
+    for (const b of cashBets) {
+      if (!isBetSettled(b)) continue;
       const key = b.date.slice(0, 7);
       const ret = effectiveReturn(b) ?? 0;
       const cur = m.get(key) ?? { staked: 0, returned: 0, profit: 0 };
@@ -214,138 +438,303 @@ function InsightsInner() {
       }))
       .sort((a, b) => a.month.localeCompare(b.month));
     return rows;
-  }, [filteredBets]);
+  }, [cashBets]);
+
+  // Sport, market or tag breakdown
+  const [dimension, setDimension] = useState<Dimension>('sport');
+  const byGroup = useMemo(() => breakdown(cashBets, dimension), [cashBets, dimension]);
+  const byEvent = useMemo(
+    () => (['competition', 'team'] as const).map(d => ({ dimension: d, rows: breakdown(cashBets, d).filter(r => r.settled > 0) })),
+    [cashBets],
+  );
 
-  // Sport breakdown
-  const bySport = useMemo(() => {
-    const m = new Map<Sport, { staked: number; returned: number; profit: number; settled: number; wins: number }>();
+  // Leg level view of multiples: how each market does on its own and how often it sinks the acca
+  const legBreakdown = useMemo(() => {
+    type Stat = { legs: number; won: number; lost: number; void: number; oddsSum: number; killed: number; killedStake: number };
+    const m = new Map<string, Stat>();
     for (const b of filteredBets) {
-      const cur = m.get(b.sport) ?? { staked: 0, returned: 0, profit: 0, settled: 0, wins: 0 };
-      if (isSettled(b.status)) {
-        const ret = effectiveReturn(b) ?? 0;
-        cur.settled += 1;
-        cur.staked += b.stake;
-        cur.returned += ret;
-        cur.profit += ret - b.stake;
-        if (b.status === 'Won') cur.wins += 1;
+      if (!b.legs) continue;
+      // Split the lost stake when more than one leg went down
+      const losers = b.legs.filter(l => l.status === 'Lost').length;
+      for (const leg of b.legs) {
+        const key = leg.market ? `${leg.sport} · ${leg.market}` : leg.sport;
+        const cur = m.get(key) ?? { legs: 0, won: 0, lost: 0, void: 0, oddsSum: 0, killed: 0, killedStake: 0 };
+        cur.legs += 1;
+        cur.oddsSum += leg.oddsDecimal;
+        if (leg.status === 'Won') cur.won += 1;
+        if (leg.status === 'Void') cur.void += 1;
+        if (leg.status === 'Lost') {
+          cur.lost += 1;
+          cur.killed += 1;
+          cur.killedStake += cashStake(b) / losers;
+        }
+        m.set(key, cur);
       }
-      m.set(b.sport, cur);
     }
     return Array.from(m.entries())
-      .map(([sport, v]) => ({
-        sport,
-        staked: +v.staked.toFixed(2),
-        returned: +v.returned.toFixed(2),
-        profit: +v.profit.toFixed(2),
-        winRate: v.settled > 0 ? v.wins / v.settled : 0,
+      .map(([market, v]) => ({
+        market,
+        legs: v.legs,
+        won: v.won,
+        lost: v.lost,
+        void: v.void,
+        avgOdds: v.legs ? v.oddsSum / v.legs : 0,
+        winRate: v.won + v.lost > 0 ? v.won / (v.won + v.lost) : 0,
+        killed: v.killed,
+        killedStake: +v.killedStake.toFixed(2),
       }))
-      .sort((a, b) => b.profit - a.profit);
+      .sort((a, b) => b.killedStake - a.killedStake || b.legs - a.legs);
   }, [filteredBets]);
 
-  // Football categories
-  const byCategory = useMemo(() => {
-    const fb = filteredBets.filter(b => b.sport === 'Football');
-    type Stat = { staked: number; returned: number; profit: number; settled: number; wins: number };
-    const m = new Map<FootballCategoryKey, Stat>();
-    for (const b of fb) {
-      const key = (b.category ?? 'Uncategorised') as FootballCategoryKey;
-      const cur = m.get(key) ?? { staked: 0, returned: 0, profit: 0, settled: 0, wins: 0 };
-      if (isSettled(b.status)) {
-        const ret = effectiveReturn(b) ?? 0;
-        cur.settled += 1;
-        cur.staked += b.stake;
-        cur.returned += ret;
-        cur.profit += ret - b.stake;
-        if (b.status === 'Won') cur.wins += 1;
-      }
-      m.set(key, cur);
-    }
-    return Array.from(m.entries())
-      .map(([category, v]) => ({
-        category,
-        staked: +v.staked.toFixed(2),
-        returned: +v.returned.toFixed(2),
-        profit: +v.profit.toFixed(2),
-        winRate: v.settled > 0 ? v.wins / v.settled : 0,
-      }))
-      .sort((a, b) => b.profit - a.profit);
+  // Cash-out analysis: what we took against what the bet paid once its market settled
+  const cashOutAnalysis = useMemo(() => {
+    const rows = filteredBets
+      .filter(b => b.cashOuts?.length)
+      .map(b => {
+        const cashed = +(b.cashOuts ?? []).reduce((s, c) => s + c.amount, 0).toFixed(2);
+        const released = +(b.cashOuts ?? []).reduce((s, c) => s + c.stake, 0).toFixed(2);
+        const actual = effectiveReturn(b);
+        // Only known once the result is in, cashing out does not change the market outcome
+        const leftAlone = isSettled(b.status) ? defaultReturn(b) : null;
+        const effect = actual !== null && leftAlone !== null ? +(actual - leftAlone).toFixed(2) : null;
+        return { bet: b, cashed, released, full: remainingStake(b) === 0, actual, leftAlone, effect };
+      })
+      .sort((a, b) => b.bet.date.localeCompare(a.bet.date));
+    const decided = rows.filter(r => r.effect !== null);
+    return {
+      rows,
+      totalCashed: +rows.reduce((s, r) => s + r.cashed, 0).toFixed(2),
+      decided: decided.length,
+      actual: +decided.reduce((s, r) => s + (r.actual ?? 0), 0).toFixed(2),
+      leftAlone: +decided.reduce((s, r) => s + (r.leftAlone ?? 0), 0).toFixed(2),
+      effect: +decided.reduce((s, r) => s + (r.effect ?? 0), 0).toFixed(2),
+      helped: decided.filter(r => (r.effect ?? 0) > 0).length,
+    };
   }, [filteredBets]);
 
+  // Labelled in the chosen format, decimal keeps its familiar 1.50 to 1.99 style
+  const bands = useMemo(() => {
+    return ODDS_BAND_EDGES.map((min, i) => {
+      const next = ODDS_BAND_EDGES[i + 1];
+      const max = next === undefined ? Infinity : next - 0.01;
+      const label = next === undefined ? `${formatOdds(min, oddsFormat)} or more`
+        : oddsFormat === 'decimal' ? `${formatOdds(min, oddsFormat)} to ${formatOdds(max, oddsFormat)}`
+        : `${formatOdds(min, oddsFormat)} to under ${formatOdds(next, oddsFormat)}`;
+      return { label, min, max };
+    });
+  }, [oddsFormat]);
+
   // Odds bands calibration, settled only
   const oddsBands = useMemo(() => {
-    const bands = [
-      { label: '1.01 to 1.49', min: 1.01, max: 1.49 },
-      { label: '1.50 to 1.99', min: 1.5, max: 1.99 },
-      { label: '2.00 to 2.99', min: 2, max: 2.99 },
-      { label: '3.00 to 4.99', min: 3, max: 4.99 },
-      { label: '5.00 or more', min: 5, max: Infinity },
-    ] as const;
-
-    const settled = filteredBets.filter(b => isSettled(b.status));
-    type Row = { band: string; bets: number; wins: number; avgOdds: number; implied: number; winRate: number; roi: number; profit: number };
+    // Voids carry no information about the price, half results count as half a bet
+    const settled = cashBets.filter(b => isSettled(b.status) && outcomeWeight(b.status).settled > 0);
+    type Row = {
+      band: string; bets: number; wins: number; avgOdds: number; implied: number; winRate: number; roi: number; profit: number;
+      winRateCi: Interval | null; roiCi: Interval | null; significance: { z: number; p: number } | null;
+    };
     const rows: Row[] = [];
 
     for (const band of bands) {
       const inBand = settled.filter(b => b.oddsDecimal >= band.min && b.oddsDecimal <= band.max);
       const bets = inBand.length;
       if (!bets) {
-        rows.push({ band: band.label, bets: 0, wins: 0, avgOdds: 0, implied: 0, winRate: 0, roi: 0, profit: 0 });
+        rows.push({ band: band.label, bets: 0, wins: 0, avgOdds: 0, implied: 0, winRate: 0, roi: 0, profit: 0, winRateCi: null, roiCi: null, significance: null });
         continue;
       }
-      const wins = inBand.filter(b => b.status === 'Won').length;
+      const weight = inBand.reduce((s, b) => s + outcomeWeight(b.status).settled, 0);
+      const wins = inBand.reduce((s, b) => s + outcomeWeight(b.status).won, 0);
       const avgOdds = inBand.reduce((s, b) => s + b.oddsDecimal, 0) / bets;
       const implied = 1 / avgOdds;
-      const winRate = wins / bets;
+      const winRate = wins / weight;
       const staked = inBand.reduce((s, b) => s + b.stake, 0);
       const returned = inBand.reduce((s, b) => s + (effectiveReturn(b) ?? 0), 0);
       const profit = +(returned - staked).toFixed(2);
       const roi = staked > 0 ? profit / staked : 0;
-      rows.push({ band: band.label, bets, wins, avgOdds, implied, winRate, roi, profit });
+      rows.push({
+        band: band.label, bets, wins, avgOdds, implied, winRate, roi, profit,
+        winRateCi: wilsonInterval(wins, weight),
+        roiCi: roiInterval(inBand.map(b => ({ stake: b.stake, ret: effectiveReturn(b) ?? 0 }))),
+        // Against each bet's own price rather than the band average
+        significance: edgeSignificance(inBand.map(b => ({ odds: b.oddsDecimal, weight: outcomeWeight(b.status).settled, won: outcomeWeight(b.status).won }))),
+      });
     }
     return rows;
-  }, [filteredBets]);
+  }, [cashBets, bands]);
+
+  // Closing line value, any bet with closing odds counts whether settled or not
+  const clv = useMemo(() => {
+    const withClose = filteredBets.filter(b => closingLineValue(b) !== null);
+    const summarise = (list: Bet[]) => {
+      const values = list.map(b => closingLineValue(b) as number);
+      return {
+        bets: list.length,
+        avgClv: values.length ? values.reduce((s, v) => s + v, 0) / values.length : 0,
+        beatShare: values.length ? values.filter(v => v > 0).length / values.length : 0,
+      };
+    };
+    const groupBy = (keys: (b: Bet) => string[]) => {
+      const m = new Map<string, Bet[]>();
+      for (const b of withClose) {
+        for (const k of keys(b)) m.set(k, [...(m.get(k) ?? []), b]);
+      }
+      return Array.from(m.entries()).map(([group, list]) => ({ group, ...summarise(list) })).sort((a, b) => b.bets - a.bets);
+    };
+    // Month by month, CLV next to the ROI the same bets actually made
+    const months = groupBy(b => [b.date.slice(0, 7)]).map(r => {
+      const settled = withClose.filter(b => b.date.slice(0, 7) === r.group && isBetSettled(b) && isCashStake(b));
+      const staked = settled.reduce((s, b) => s + b.stake, 0);
+      const returned = settled.reduce((s, b) => s + (effectiveReturn(b) ?? 0), 0);
+      return { ...r, settled: settled.length, roi: staked > 0 ? (returned - staked) / staked : null };
+    }).sort((a, b) => a.group.localeCompare(b.group));
+    return {
+      ...summarise(withClose),
+      coverage: filteredBets.length ? withClose.length / filteredBets.length : 0,
+      bySport: groupBy(b => groupKeys(b, 'sport')),
+      byMarket: groupBy(b => groupKeys(b, 'market')),
+      byTag: groupBy(b => groupKeys(b, 'tag')),
+      byBand: bands
+        .map(band => ({ group: band.label, ...summarise(withClose.filter(b => b.oddsDecimal >= band.min && b.oddsDecimal <= band.max)) }))
+        .filter(r => r.bets > 0),
+      months,
+    };
+  }, [filteredBets, bands]);
+
+  // Promotions, an offer is worth what its free and bonus bets returned plus the profit or loss of the cash bets linked to it
+  const promoValue = useMemo(() => {
+    const promos = new Map((state.promotions ?? []).map(p => [p.id, p]));
+    const accounts = new Map((state.accounts ?? []).map(a => [a.id, a]));
+    const relevant = filteredBets.filter(b => !isCashStake(b) || b.promotionId);
+    type Stat = { bets: number; pending: number; promoStake: number; promoReturn: number; qualifying: number };
+    const group = (key: (b: Bet) => string) => {
+      const m = new Map<string, Stat>();
+      for (const b of relevant) {
+        const k = key(b);
+        const cur = m.get(k) ?? { bets: 0, pending: 0, promoStake: 0, promoReturn: 0, qualifying: 0 };
+        cur.bets += 1;
+        if (!isBetSettled(b)) cur.pending += 1;
+        else if (isCashStake(b)) cur.qualifying += (effectiveReturn(b) ?? 0) - b.stake;
+        else {
+          cur.promoStake += b.stake;
+          cur.promoReturn += effectiveReturn(b) ?? 0;
+        }
+        m.set(k, cur);
+      }
+      return Array.from(m.entries()).map(([name, v]) => ({
+        name,
+        bets: v.bets,
+        pending: v.pending,
+        promoStake: +v.promoStake.toFixed(2),
+        promoReturn: +v.promoReturn.toFixed(2),
+        qualifying: +v.qualifying.toFixed(2),
+        value: +(v.promoReturn + v.qualifying).toFixed(2),
+        conversion: v.promoStake > 0 ? v.promoReturn / v.promoStake : null,
+      })).sort((a, b) => b.value - a.value);
+    };
+    const byPromotion = group(b => (b.promotionId && promos.get(b.promotionId)?.name) || 'No promotion');
+    const byBookmaker = group(b => {
+      const accountId = b.accountId ?? (b.promotionId ? promos.get(b.promotionId)?.accountId : undefined);
+      return (accountId && accounts.get(accountId)?.name) || 'No account';
+    });
+    const total = byPromotion.reduce((acc, r) => ({
+      promoStake: acc.promoStake + r.promoStake,
+      promoReturn: acc.promoReturn + r.promoReturn,
+      value: acc.value + r.value,
+    }), { promoStake: 0, promoReturn: 0, value: 0 });
+    return { bets: relevant.length, byPromotion, byBookmaker, ...total, conversion: total.promoStake > 0 ? total.promoReturn / total.promoStake : null };
+  }, [filteredBets, state.promotions, state.accounts]);
 
   // Weekday performance, settled only
   const byWeekday = useMemo(() => {
     const names = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-    type Stat = { staked: number; returned: number; profit: number; settled: number; wins: number };
+    type Stat = { staked: number; returned: number; profit: number; settled: number; wins: number; count: number; results: { stake: number; ret: number }[] };
     const map = new Map<string, Stat>();
-    for (const b of filteredBets) {
-      if (!isSettled(b.status)) continue;
+    for (const b of cashBets) {
+      if (!isBetSettled(b)) continue;
       const key = dayName(b.date);
-      const cur = map.get(key) ?? { staked: 0, returned: 0, profit: 0, settled: 0, wins: 0 };
+      const cur = map.get(key) ?? { staked: 0, returned: 0, profit: 0, settled: 0, wins: 0, count: 0, results: [] };
       const ret = effectiveReturn(b) ?? 0;
-      cur.settled += 1;
+      cur.count += 1;
+      cur.results.push({ stake: b.stake, ret });
+      cur.settled += outcomeWeight(b.status).settled;
       cur.staked += b.stake;
       cur.returned += ret;
       cur.profit += ret - b.stake;
-      if (b.status === 'Won') cur.wins += 1;
+      cur.wins += outcomeWeight(b.status).won;
       map.set(key, cur);
     }
     return names.map(day => {
-      const v = map.get(day) ?? { staked: 0, returned: 0, profit: 0, settled: 0, wins: 0 };
+      const v = map.get(day) ?? { staked: 0, returned: 0, profit: 0, settled: 0, wins: 0, count: 0, results: [] };
       const winRate = v.settled > 0 ? v.wins / v.settled : 0;
       const roi = v.staked > 0 ? v.profit / v.staked : 0;
-      return { day, staked: +v.staked.toFixed(2), returned: +v.returned.toFixed(2), profit: +v.profit.toFixed(2), winRate, roi };
+      return {
+        day, settled: v.count, staked: +v.staked.toFixed(2), returned: +v.returned.toFixed(2), profit: +v.profit.toFixed(2), winRate, roi,
+        winRateCi: wilsonInterval(v.wins, v.settled), roiCi: roiInterval(v.results),
+      };
     }).sort((a, b) => b.profit - a.profit);
-  }, [filteredBets]);
+  }, [cashBets]);
+
+  // Challenge runs, always over all bets since a run can span sports and dates
+  const challenge = useMemo(() => {
+    const runs = (state.runs ?? []).map(run => {
+      const steps = bets.filter(b => b.runId === run.id).map(b => inBaseCurrency(b, state)).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+      const outcome = runOutcome(run, steps);
+      const last = steps[steps.length - 1];
+      const finalReturn = outcome === 'Bust' ? 0 : last && isBetSettled(last) ? effectiveReturn(last) ?? 0 : run.startStake;
+      return { run, steps, outcome, finalReturn: +finalReturn.toFixed(2) };
+    }).sort((a, b) => b.run.startedAt.localeCompare(a.run.startedAt));
+
+    const hits = runs.filter(r => r.outcome === 'Hit');
+    const busts = runs.filter(r => r.outcome === 'Bust');
+    const decided = hits.length + busts.length;
+    const decidedSteps = [...hits, ...busts].flatMap(r => r.steps);
+
+    // A bust loses the whole starting stake, a hit pays out whatever it rolled up to
+    const failedCost = +busts.reduce((s, r) => s + r.run.startStake, 0).toFixed(2);
+    const successPayout = +hits.reduce((s, r) => s + r.finalReturn - r.run.startStake, 0).toFixed(2);
+
+    return {
+      runs,
+      attempts: decided,
+      hits: hits.length,
+      running: runs.filter(r => r.outcome === 'Running').length,
+      successRate: decided ? hits.length / decided : 0,
+      avgStepsBeforeBust: busts.length ? busts.reduce((s, r) => s + r.steps.length - 1, 0) / busts.length : 0,
+      avgOddsPerStep: decidedSteps.length ? decidedSteps.reduce((s, b) => s + b.oddsDecimal, 0) / decidedSteps.length : 0,
+      triesPerHit: hits.length ? decided / hits.length : 0,
+      failedCost,
+      successPayout,
+      net: +(successPayout - failedCost).toFixed(2),
+    };
+  }, [bets, state]);
 
   // CSV export for analysis elsewhere, respects current filters
   function exportCSV() {
-    const header = ['date', 'description', 'sport', 'category', 'stake', 'oddsDecimal', 'status', 'return', 'profit'];
-    const rows = filteredBets.map(b => {
+    const header = ['date', 'description', 'sport', 'market', 'tags', 'stake', 'stakeType', 'currency', 'oddsDecimal', 'odds', 'status', 'return', 'profit', 'competition', 'home', 'away', 'kickoff', 'places', 'placeTerms'];
+    // Native amounts, the currency column says what they are in
+    const rows = nativeFilteredBets.map(b => {
       const ret = effectiveReturn(b);
-      const profit = isSettled(b.status) ? ((ret ?? 0) - b.stake).toFixed(2) : '';
+      const profit = isBetSettled(b) ? ((ret ?? 0) - cashStake(b)).toFixed(2) : '';
       return [
         b.date,
         b.description.replaceAll(',', ' '),
         b.sport,
-        b.sport === 'Football' ? (b.category ?? 'Uncategorised') : '',
+        (b.market ?? '').replaceAll(',', ' '),
+        // Semicolons keep a bet's tags in one column
+        (b.tags ?? []).join(';').replaceAll(',', ' '),
         b.stake.toFixed(2),
+        b.stakeType ?? 'Cash',
+        betCurrency(b),
         b.oddsDecimal.toFixed(2),
+        fmtOdds(b.oddsDecimal),
         b.status,
         ret == null ? '' : ret.toFixed(2),
         profit,
+        (b.competition ?? '').replaceAll(',', ' '),
+        (b.home ?? '').replaceAll(',', ' '),
+        (b.away ?? '').replaceAll(',', ' '),
+        b.kickoff ?? '',
+        b.eachWay ? String(b.eachWay.places) : '',
+        b.eachWay ? `1/${Math.round(1 / b.eachWay.placeFraction)}` : '',
       ].join(',');
     });
     const csv = [header.join(','), ...rows].join('\n');
@@ -356,8 +745,211 @@ function InsightsInner() {
     a.click();
   }
 
+  // JSON backup and restore of the open profile, other profiles are backed up from their own page
+  const profile = profiles.profiles.find(p => p.id === profileId) ?? { id: profileId, name: profileId };
+
+  function exportBackup() {
+    const backup: Backup = {
+      format: BACKUP_FORMAT,
+      version: SCHEMA_VERSION,
+      exportedAt: new Date().toISOString(),
+      profile,
+      data: { [BETS_KEY]: bets, [STATE_KEY]: state },
+    };
+    const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+    const a = document.createElement('a');
+    a.href = URL.createObjectURL(blob);
+    const slug = profile.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || profile.id;
+    a.download = `roller-bets-backup-${slug}-${new Date().toISOString().slice(0, 10)}.json`;
+    a.click();
+  }
+
+  const restoreInput = useRef<HTMLInputElement | null>(null);
+  const [restore, setRestore] = useState<{ backup: Backup; fileName: string } | null>(null);
+  const [restoreError, setRestoreError] = useState<string | null>(null);
+
+  function onRestoreFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    file.text().then(text => {
+      try {
+        setRestore({ backup: parseBackup(text), fileName: file.name });
+        setRestoreError(null);
+      } catch (err) {
+        setRestore(null);
+        setRestoreError(err instanceof Error ? err.message : 'Could not read backup');
+      }
+    });
+  }
+
+  const restorePreview = useMemo(() => {
+    if (!restore) return null;
+    const incoming = restore.backup.data[BETS_KEY];
+    const current = new Map(bets.map(b => [b.id, b]));
+    const added = incoming.filter(b => !current.has(b.id)).length;
+    const newer = incoming.filter(b => current.has(b.id) && b.updatedAt > (current.get(b.id) as Bet).updatedAt).length;
+    const incomingIds = new Set(incoming.map(b => b.id));
+    const onlyHere = bets.filter(b => !incomingIds.has(b.id)).length;
+    return { total: incoming.length, added, newer, unchanged: incoming.length - added - newer, onlyHere, runs: restore.backup.data[STATE_KEY].runs?.length ?? 0 };
+  }, [restore, bets]);
+
+  function applyRestore(mode: 'replace' | 'merge') {
+    if (!restore) return;
+    const incomingState = restore.backup.data[STATE_KEY];
+    const nextBets = mode === 'replace' ? restore.backup.data[BETS_KEY] : mergeBets(bets, restore.backup.data[BETS_KEY]);
+    let nextState: AppState = incomingState;
+    if (mode === 'merge') {
+      const runs = new Map((state.runs ?? []).map(r => [r.id, r]));
+      for (const r of incomingState.runs ?? []) if (!runs.has(r.id) || r.abandonedAt) runs.set(r.id, r);
+      nextState = {
+        ...state,
+        runs: Array.from(runs.values()),
+        accounts: mergeByKey(state.accounts, incomingState.accounts, a => a.id, (cur, inc) => ({ ...cur, transactions: mergeByKey(cur.transactions, inc.transactions, t => t.id) })),
+        rates: mergeByKey(state.rates, incomingState.rates, r => r.id),
+        promotions: mergeByKey(state.promotions, incomingState.promotions, p => p.id),
+        // Sports are keyed by name, a sport on both sides keeps every market from either
+        sports: mergeByKey(sportDefs(state), sportDefs(incomingState), d => d.name, (cur, inc) => ({ ...cur, markets: Array.from(new Set([...cur.markets, ...inc.markets])) })),
+      };
+    }
+    recordChange(profileId, bets, nextBets);
+    saveBets(profileId, nextBets);
+    saveState(profileId, nextState);
+    setBets(nextBets);
+    setState(nextState);
+    setRestore(null);
+  }
+
+  // CSV import, the reverse of exportCSV plus bookmaker statements
+  const importInput = useRef<HTMLInputElement | null>(null);
+  const [csvImport, setCsvImport] = useState<{ fileName: string; header: string[]; rows: string[][]; mapping: ImportMapping; defaultSport: Sport } | null>(null);
+
+  function onImportFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    file.text().then(text => {
+      const [header, ...rows] = parseCSV(text);
+      if (!header) return;
+      setCsvImport({ fileName: file.name, header, rows, mapping: guessMapping(header), defaultSport: sportNames(state)[0] ?? 'Other' });
+    });
+  }
+
+  const importRows = useMemo(() => {
+    if (!csvImport) return [];
+    const { mapping, rows, defaultSport } = csvImport;
+    const cell = (row: string[], f: ImportField) => (mapping[f] >= 0 ? (row[mapping[f]] ?? '').trim() : '');
+    const seen = new Set(bets.map(duplicateKey));
+    const now = new Date().toISOString();
+    return rows.map((row, i) => {
+      const errors: string[] = [];
+      const date = parseDate(cell(row, 'date'));
+      if (!date) errors.push('bad date');
+      const description = cell(row, 'description');
+      if (!description) errors.push('no description');
+      const sport = mapping.sport >= 0 ? matchSport(state, cell(row, 'sport')) : defaultSport;
+      if (!sport) errors.push(`unknown sport "${cell(row, 'sport')}", add it under Sports and markets first`);
+      const stake = parseMoney(cell(row, 'stake'));
+      if (stake === null || stake <= 0) errors.push('bad stake');
+      const stakeType = parseStakeType(cell(row, 'stakeType'));
+      if (!stakeType) errors.push(`unknown stake type "${cell(row, 'stakeType')}"`);
+      const odds = parseOdds(cell(row, 'odds'));
+      if (odds === null || odds <= 1) errors.push('odds must be above 1');
+      const status = parseStatus(cell(row, 'status'));
+      if (!status) errors.push(`unknown status "${cell(row, 'status')}"`);
+      const ret = mapping.return >= 0 ? parseMoney(cell(row, 'return')) : null;
+      // Our export separates tags with semicolons, commas work too
+      const tags = parseTags(cell(row, 'tags').replaceAll(';', ','));
+      // Blank or unmapped currency means the base currency
+      const currencyCell = cell(row, 'currency');
+      const betCcy = currencyCell ? parseCurrency(currencyCell) : base;
+      if (!betCcy) errors.push(`unknown currency "${currencyCell}"`);
+      const kickoffCell = cell(row, 'kickoff');
+      const kickoff = kickoffCell ? parseKickoff(kickoffCell) : undefined;
+      if (kickoff === null) errors.push(`bad kickoff "${kickoffCell}"`);
+      // Each-way terms come as a pair, a Placed result needs them
+      const placesCell = cell(row, 'places');
+      const termsCell = cell(row, 'placeTerms');
+      let eachWay: Bet['eachWay'];
+      if (placesCell || termsCell) {
+        const places = Number(placesCell);
+        const placeFraction = parsePlaceTerms(termsCell);
+        if (!Number.isInteger(places) || places < 1) errors.push(`bad places "${placesCell}"`);
+        if (placeFraction === null) errors.push(`bad place terms "${termsCell}"`);
+        if (placeFraction !== null && Number.isInteger(places) && places >= 1) eachWay = { placeFraction, places };
+      }
+      if (status === 'Placed' && !eachWay && !errors.length) errors.push('placed without each-way terms');
+
+      if (errors.length || !date || !sport || stake === null || !stakeType || odds === null || !status || !betCcy || kickoff === null) {
+        return { line: i + 2, row, bet: null, errors, duplicate: false };
+      }
+      const bet: Bet = {
+        id: uid(),
+        date,
+        description,
+        sport,
+        // A market the sport does not list yet is kept as written
+        market: marketsFor(state, sport).find(m => m.toLowerCase() === cell(row, 'market').toLowerCase()) ?? (cell(row, 'market') || undefined),
+        tags: tags.length ? tags : undefined,
+        competition: cell(row, 'competition') || undefined,
+        home: cell(row, 'home') || undefined,
+        away: cell(row, 'away') || undefined,
+        kickoff,
+        stake: +stake.toFixed(2),
+        stakeType: stakeType === 'Cash' ? undefined : stakeType,
+        currency: betCcy,
+        oddsDecimal: odds,
+        eachWay,
+        status,
+        settledAt: isSettled(status) ? now : undefined,
+        createdAt: now,
+        updatedAt: now,
+      };
+      // Only keep the file's return when it disagrees with what the stake type and odds pay
+      const defaultRet = defaultReturn(bet);
+      if (ret !== null && defaultRet !== null && Math.abs(ret - defaultRet) > 0.005) bet.returnOverride = +ret.toFixed(2);
+      const key = duplicateKey(bet);
+      const duplicate = seen.has(key);
+      seen.add(key);
+      return { line: i + 2, row, bet, errors, duplicate };
+    });
+  }, [csvImport, bets, base, state]);
+
+  const importable = importRows.filter(r => r.bet && !r.duplicate).map(r => r.bet as Bet);
+  const missingRequired = csvImport ? IMPORT_FIELDS.filter(f => f.required && csvImport.mapping[f.field] < 0).map(f => f.label) : [];
+
+  function applyImport() {
+    if (!importable.length || missingRequired.length) return;
+    const nextBets = [...importable, ...bets];
+    recordChange(profileId, bets, nextBets);
+    saveBets(profileId, nextBets);
+    setBets(nextBets);
+    setCsvImport(null);
+  }
+
   const hasActiveFilter = filter.sport !== 'All' || filter.from || filter.to;
 
+  // -------- Profile comparison --------
+  // The open profile comes from the page, the others are read when the mode is turned on. The filter applies to all.
+  const [compare, setCompare] = useState(false);
+  const [otherLedgers, setOtherLedgers] = useState<Record<string, { bets: Bet[]; state: AppState }>>({});
+  useEffect(() => {
+    if (!compare) return;
+    let current = true;
+    const others = profiles.profiles.filter(p => p.id !== profileId);
+    Promise.all(others.map(p => readProfileLedger(p.id).then(ledger => [p.id, ledger] as const)))
+      .then(entries => { if (current) setOtherLedgers(Object.fromEntries(entries)); });
+    return () => { current = false; };
+  }, [compare, profiles.profiles, profileId]);
+
+  const comparison = useMemo(() => {
+    const inFilter = (b: Bet) => (filter.sport === 'All' || b.sport === filter.sport) && (!filter.from || b.date >= filter.from) && (!filter.to || b.date <= filter.to);
+    return profiles.profiles.flatMap(p => {
+      const ledger = p.id === profileId ? { bets, state } : otherLedgers[p.id];
+      return ledger ? [{ profile: p, summary: profileSummary(ledger.bets.filter(inFilter), ledger.state) }] : [];
+    });
+  }, [profiles.profiles, profileId, bets, state, otherLedgers, filter]);
+
   return (
     <div className={state.theme === 'dark' ? 'min-h-screen bg-slate-950 text-slate-100' : 'min-h-screen bg-slate-50 text-slate-900'}>
       {!isClient ? (
@@ -366,11 +958,14 @@ function InsightsInner() {
         </div>
       ) : (
         <div className="max-w-6xl mx-auto px-4 py-6 space-y-6">
+          <StorageBanner issues={[...storageIssues, ...sync.serverIssues]} onDismiss={() => { setStorageIssues([]); sync.dismissServerIssues(); }} />
+          <SyncBanner status={sync.status} conflicts={sync.conflicts} onKeepMine={sync.keepMine} onKeepTheirs={sync.keepTheirs} onRetry={sync.retry} />
+
           {/* Header */}
           <div className="flex items-center justify-between gap-3">
             <div>
               <h1 className="text-xl sm:text-2xl font-semibold tracking-tight">Insights</h1>
-              <p className="text-xs sm:text-sm opacity-70">Stats by month, sport, category, odds bands, weekday.</p>
+              <p className="text-xs sm:text-sm opacity-70">Stats by month, sport, market, tag, odds bands, weekday. Amounts in {base}.</p>
               {hasActiveFilter && (
                 <p className="text-xs opacity-60 mt-1">
                   Showing {filter.sport !== 'All' ? `${filter.sport}` : 'All sports'}
@@ -378,7 +973,19 @@ function InsightsInner() {
                 </p>
               )}
             </div>
-            <div className="flex items-center gap-2">
+            <div className="flex flex-wrap items-center justify-end gap-2">
+              <ProfileSwitcher profiles={profiles.profiles} activeId={profileId} onSwitch={profiles.switchTo} onCreate={profiles.create} />
+              {profiles.profiles.length > 1 && (
+                <button className={btnGhost + (compare ? ' bg-slate-700' : '')} type="button" onClick={() => setCompare(c => !c)}>Compare profiles</button>
+              )}
+              <select
+                className="rounded-xl px-2 py-2 text-sm bg-slate-800/60 border border-slate-700"
+                value={oddsFormat}
+                onChange={e => setOddsFormat(e.target.value as OddsFormat)}
+                title="Odds format"
+              >
+                {ODDS_FORMATS.map(f => <option key={f} value={f}>{ODDS_FORMAT_LABEL[f]}</option>)}
+              </select>
               <Link
                 href={{
                   pathname: '/',
@@ -393,16 +1000,141 @@ function InsightsInner() {
                 Return to tracker
               </Link>
               <button className={btnGhost} type="button" onClick={exportCSV}>Export CSV</button>
+              <button className={btnGhost} type="button" onClick={() => importInput.current?.click()}>Import CSV</button>
+              <input ref={importInput} type="file" accept="text/csv,.csv" className="hidden" onChange={onImportFile} />
+              <button className={btnGhost} type="button" onClick={exportBackup} title={`Bets and settings of ${profile.name} only`}>Backup {profile.name}</button>
+              <button className={btnGhost} type="button" onClick={() => restoreInput.current?.click()} title={`Restores into ${profile.name}`}>Restore</button>
+              <input ref={restoreInput} type="file" accept="application/json,.json" className="hidden" onChange={onRestoreFile} />
             </div>
           </div>
 
+          {csvImport && (
+            <div className={card}>
+              <div className="flex items-center justify-between mb-2">
+                <div className="text-sm opacity-80">Import {csvImport.fileName}</div>
+                <div className="text-xs opacity-60">{csvImport.rows.length} rows</div>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-3">
+                {IMPORT_FIELDS.map(f => (
+                  <div key={f.field}>
+                    <label className="text-xs opacity-80">{f.label}{f.required ? '' : ' (optional)'}</label>
+                    <select
+                      className={field}
+                      value={csvImport.mapping[f.field]}
+                      onChange={e => setCsvImport(ci => ci && { ...ci, mapping: { ...ci.mapping, [f.field]: Number(e.target.value) } })}
+                    >
+                      <option value={-1}>Not in file</option>
+                      {csvImport.header.map((h, i) => <option key={i} value={i}>{h || `Column ${i + 1}`}</option>)}
+                    </select>
+                  </div>
+                ))}
+                {csvImport.mapping.sport < 0 && (
+                  <div>
+                    <label className="text-xs opacity-80">Sport for all rows</label>
+                    <select className={field} value={csvImport.defaultSport} onChange={e => setCsvImport(ci => ci && { ...ci, defaultSport: e.target.value })}>
+                      {sportNames(state).map(s => <option key={s} value={s}>{s}</option>)}
+                    </select>
+                  </div>
+                )}
+              </div>
+              <p className="text-xs opacity-70 mb-3">
+                {missingRequired.length
+                  ? `Map ${missingRequired.join(', ')} to continue.`
+                  : `${importable.length} to import, ${importRows.filter(r => r.duplicate).length} likely duplicates skipped, ${importRows.filter(r => !r.bet).length} invalid.`}
+                {' '}Odds can be decimal, fractional or American. Duplicates match on date, bet, stake and odds.
+              </p>
+              <div className="overflow-x-auto max-h-96 overflow-y-auto mb-3">
+                <table className="w-full text-xs">
+                  <thead className="text-left text-slate-300 border-b border-slate-800">
+                    <tr>
+                      <th className="py-1 pr-3">Line</th>
+                      <th className="py-1 pr-3">Date</th>
+                      <th className="py-1 pr-3">Bet</th>
+                      <th className="py-1 pr-3">Sport</th>
+                      <th className="py-1 pr-3 text-right tabular-nums">Stake</th>
+                      <th className="py-1 pr-3 text-right tabular-nums">Odds</th>
+                      <th className="py-1 pr-3">Status</th>
+                      <th className="py-1 pr-3">Check</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {!missingRequired.length && importRows.slice(0, 200).map(r => (
+                      <tr key={r.line} className={'border-b border-slate-800/80 ' + (r.bet && !r.duplicate ? '' : 'opacity-60')}>
+                        <td className="py-1 pr-3 tabular-nums">{r.line}</td>
+                        <td className="py-1 pr-3 whitespace-nowrap">{r.bet?.date ?? '—'}</td>
+                        <td className="py-1 pr-3">{r.bet?.description ?? r.row.join(', ')}</td>
+                        <td className="py-1 pr-3">{r.bet?.sport ?? '—'}</td>
+                        <td className="py-1 pr-3 text-right tabular-nums">{r.bet ? money(r.bet.stake, betCurrency(r.bet)) : '—'}</td>
+                        <td className="py-1 pr-3 text-right tabular-nums">{r.bet ? fmtOdds(r.bet.oddsDecimal) : '—'}</td>
+                        <td className="py-1 pr-3">{r.bet?.status ?? '—'}</td>
+                        <td className={'py-1 pr-3 ' + (r.bet ? (r.duplicate ? 'text-amber-400' : 'text-emerald-400') : 'text-rose-400')}>
+                          {r.bet ? (r.duplicate ? 'Duplicate, skipped' : 'OK') : r.errors.join(', ')}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="flex gap-2 justify-end">
+                <button className={btnGhost} type="button" onClick={() => setCsvImport(null)}>Cancel</button>
+                <button
+                  className="rounded-xl px-4 py-2 text-sm font-medium bg-indigo-500 hover:bg-indigo-600 text-white disabled:opacity-50"
+                  type="button"
+                  disabled={!importable.length || missingRequired.length > 0}
+                  onClick={applyImport}
+                >
+                  Import {importable.length} bets
+                </button>
+              </div>
+            </div>
+          )}
+
+          {restoreError && (
+            <div className="rounded-2xl p-4 border border-rose-700 bg-rose-950/40 text-sm flex items-center justify-between gap-3">
+              <span>Restore failed: {restoreError}</span>
+              <button className={btnGhost} type="button" onClick={() => setRestoreError(null)}>Dismiss</button>
+            </div>
+          )}
+
+          {restore && restorePreview && (
+            <div className={card}>
+              <div className="flex items-center justify-between mb-2">
+                <div className="text-sm opacity-80">Restore {restore.fileName} into {profile.name}</div>
+                <div className="text-xs opacity-60">
+                  backup v{restore.backup.version}{restore.backup.profile ? ` of ${restore.backup.profile.name}` : ''}{restore.backup.exportedAt ? ` from ${restore.backup.exportedAt.slice(0, 10)}` : ''}
+                </div>
+              </div>
+              {restore.backup.profile && restore.backup.profile.id !== profileId && (
+                <p className="text-xs rounded-xl border border-amber-700 bg-amber-950/40 px-3 py-2 mb-3">
+                  This backup was taken from {restore.backup.profile.name}. Switch to that profile first to restore it there.
+                </p>
+              )}
+              <div className="grid grid-cols-2 md:grid-cols-6 gap-3 sm:gap-4 mb-3">
+                <Metric label="Bets in file" val={String(restorePreview.total)} />
+                <Metric label="New" val={String(restorePreview.added)} />
+                <Metric label="Newer in file" val={String(restorePreview.newer)} />
+                <Metric label="Unchanged or older" val={String(restorePreview.unchanged)} />
+                <Metric label="Only in browser" val={String(restorePreview.onlyHere)} />
+                <Metric label="Challenge runs" val={String(restorePreview.runs)} />
+              </div>
+              <p className="text-xs opacity-70 mb-3">
+                Replace swaps all bets and settings for the file&apos;s. Merge keeps your settings, adds the file&apos;s runs, accounts, rates, promotions and sports you don&apos;t have, and for bets on both sides keeps whichever was updated last.
+              </p>
+              <div className="flex gap-2 justify-end">
+                <button className={btnGhost} type="button" onClick={() => setRestore(null)}>Cancel</button>
+                <button className={btnGhost} type="button" onClick={() => applyRestore('merge')}>Merge by id</button>
+                <button className="rounded-xl px-3 py-2 text-sm font-medium bg-rose-600 hover:bg-rose-700 text-white" type="button" onClick={() => applyRestore('replace')}>Replace</button>
+              </div>
+            </div>
+          )}
+
           {/* Global Filters */}
           <div className={card}>
             <div className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end">
               <div className="col-span-1 md:col-span-1">
                 <label className="text-xs opacity-80">Sport</label>
-                <select className={field} value={filter.sport} onChange={e => setFilter(f => ({ ...f, sport: e.target.value as Sport | 'All' }))}>
-                  {(['All','Football','Cricket','Tennis','Other'] as const).map(s => <option key={s} value={s}>{s}</option>)}
+                <select className={field} value={filter.sport} onChange={e => setFilter(f => ({ ...f, sport: e.target.value }))}>
+                  {['All', ...sportNames(state, bets)].map(s => <option key={s} value={s}>{s}</option>)}
                 </select>
               </div>
               <div className="col-span-1 md:col-span-2">
@@ -419,17 +1151,54 @@ function InsightsInner() {
             </div>
           </div>
 
+          {/* Profiles side by side */}
+          {compare && (
+            <div className={card}>
+              <div className="flex items-center justify-between mb-2">
+                <div className="text-sm opacity-80">Profiles side by side</div>
+                <div className="text-xs opacity-60">cash stakes, each in its own base currency</div>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="text-left text-slate-300 border-b border-slate-800">
+                    <tr>
+                      <th className="py-2 pr-3"></th>
+                      {comparison.map(c => (
+                        <th key={c.profile.id} className="py-2 pr-3 text-right">{c.profile.name}{c.profile.id === profileId ? ' (open)' : ''}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {COMPARE_ROWS.map(row => (
+                      <tr key={row.label} className="border-b border-slate-800/80">
+                        <td className="py-2 pr-3 opacity-80">{row.label}</td>
+                        {comparison.map(c => {
+                          const n = row.num?.(c.summary);
+                          return (
+                            <td key={c.profile.id} className={`py-2 pr-3 text-right tabular-nums ${n === undefined ? '' : n >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
+                              {row.show(c.summary)}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
           {/* Key metrics */}
           <div className={card}>
             <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-3 sm:gap-4">
-              <Metric label="Avg odds" val={metrics.avgOdds.toFixed(2)} />
-              <Metric label="Avg stake" val={currency.format(metrics.avgStake)} />
-              <Metric label="Median stake" val={currency.format(metrics.medStake)} />
-              <Metric label="Profit per bet" val={currency.format(metrics.profitPerBet)} num={metrics.profitPerBet} posNeg />
+              <Metric label="Avg odds" val={metrics.avgOdds ? fmtOdds(metrics.avgOdds) : 'N/A'} />
+              <Metric label="Avg stake" val={money(metrics.avgStake)} />
+              <Metric label="Median stake" val={money(metrics.medStake)} />
+              <Metric label="Profit per bet" val={money(metrics.profitPerBet)} num={metrics.profitPerBet} posNeg />
               <Metric label="ROI" val={percentFmt.format(metrics.roi)} />
               <Metric label="Hit rate" val={percentFmt.format(metrics.hitRate)} />
-              <Metric label="Pending stake" val={currency.format(metrics.pendingStake)} />
-              <Metric label="Pending potential" val={currency.format(metrics.pendingPotentialReturn)} />
+              <Metric label="Pending stake" val={money(metrics.pendingStake)} />
+              <Metric label="Pending potential" val={money(metrics.pendingPotentialReturn)} />
             </div>
           </div>
 
@@ -460,10 +1229,10 @@ function InsightsInner() {
                       title="Filter to this month"
                     >
                       <td className="py-2 pr-3">{r.month}</td>
-                      <td className="py-2 pr-3 text-right tabular-nums">{currency.format(r.staked)}</td>
-                      <td className="py-2 pr-3 text-right tabular-nums">{currency.format(r.returned)}</td>
+                      <td className="py-2 pr-3 text-right tabular-nums">{money(r.staked)}</td>
+                      <td className="py-2 pr-3 text-right tabular-nums">{money(r.returned)}</td>
                       <td className={'py-2 pr-3 text-right tabular-nums ' + (r.profit >= 0 ? 'text-emerald-400' : 'text-rose-400')}>
-                        {currency.format(r.profit)}
+                        {money(r.profit)}
                       </td>
                     </tr>
                   ))}
@@ -472,35 +1241,128 @@ function InsightsInner() {
             </div>
           </div>
 
-          {/* Sport performance */}
+          {/* Performance by sport, market or tag */}
           <div className={card}>
             <div className="flex items-center justify-between mb-2">
-              <div className="text-sm opacity-80">Sport performance</div>
-              <div className="text-xs opacity-60">settled only</div>
+              <div className="flex items-center gap-2 text-sm opacity-80">
+                Performance by
+                <select className={field + ' w-auto py-1'} value={dimension} onChange={e => setDimension(e.target.value as Dimension)} aria-label="Group by">
+                  {DIMENSIONS.map(d => <option key={d} value={d}>{DIMENSION_LABEL[d].toLowerCase()}</option>)}
+                </select>
+              </div>
+              <div className="text-xs opacity-60">
+                settled only{dimension === 'tag' ? ', a bet counts under each of its tags' : dimension === 'team' ? ', a bet counts under both sides' : ''}, 95% intervals, greyed under {MIN_SAMPLE} bets
+              </div>
             </div>
             <div className="overflow-x-auto">
               <table className="w-full text-sm">
                 <thead className="text-left text-slate-300 border-b border-slate-800">
                   <tr>
-                    <th className="py-2 pr-3">Sport</th>
+                    <th className="py-2 pr-3">{DIMENSION_LABEL[dimension]}</th>
+                    <th className="py-2 pr-3 text-right tabular-nums">Settled</th>
                     <th className="py-2 pr-3 text-right tabular-nums">Staked</th>
                     <th className="py-2 pr-3 text-right tabular-nums">Returned</th>
                     <th className="py-2 pr-3 text-right tabular-nums">Profit</th>
+                    <th className="py-2 pr-3 text-right tabular-nums">ROI</th>
                     <th className="py-2 pr-3 text-right tabular-nums">Win rate</th>
                   </tr>
                 </thead>
                 <tbody>
-                  {bySport.length === 0 ? (
-                    <tr><td colSpan={5} className="py-4 text-center text-slate-400">No settled bets yet</td></tr>
-                  ) : bySport.map(r => (
-                    <tr key={r.sport} className="border-b border-slate-800/80">
-                      <td className="py-2 pr-3">{r.sport}</td>
-                      <td className="py-2 pr-3 text-right tabular-nums">{currency.format(r.staked)}</td>
-                      <td className="py-2 pr-3 text-right tabular-nums">{currency.format(r.returned)}</td>
+                  {byGroup.length === 0 ? (
+                    <tr><td colSpan={7} className="py-4 text-center text-slate-400">No settled bets yet</td></tr>
+                  ) : byGroup.map(r => (
+                    <tr key={r.group} className={rowClass(r.settled)}>
+                      <td className="py-2 pr-3">{r.group}</td>
+                      <td className="py-2 pr-3 text-right tabular-nums"><SampleCount settled={r.settled} /></td>
+                      <td className="py-2 pr-3 text-right tabular-nums">{money(r.staked)}</td>
+                      <td className="py-2 pr-3 text-right tabular-nums">{money(r.returned)}</td>
                       <td className={'py-2 pr-3 text-right tabular-nums ' + (r.profit >= 0 ? 'text-emerald-400' : 'text-rose-400')}>
-                        {currency.format(r.profit)}
+                        {money(r.profit)}
                       </td>
+                      <td className="py-2 pr-3 text-right tabular-nums"><WithInterval value={r.roi} ci={r.roiCi} /></td>
+                      <td className="py-2 pr-3 text-right tabular-nums"><WithInterval value={r.winRate} ci={r.winRateCi} /></td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Competitions and teams */}
+          <div className={card}>
+            <div className="flex items-center justify-between mb-2">
+              <div className="text-sm opacity-80">Competitions and teams</div>
+              <div className="text-xs opacity-60">settled only, a bet counts under both sides of its event, greyed under {MIN_SAMPLE} bets</div>
+            </div>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              {byEvent.map(({ dimension: d, rows }) => (
+                <div key={d} className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="text-left text-slate-300 border-b border-slate-800">
+                      <tr>
+                        <th className="py-2 pr-3">{DIMENSION_LABEL[d]}</th>
+                        <th className="py-2 pr-3 text-right tabular-nums">Settled</th>
+                        <th className="py-2 pr-3 text-right tabular-nums">Profit</th>
+                        <th className="py-2 pr-3 text-right tabular-nums">ROI</th>
+                        <th className="py-2 pr-3 text-right tabular-nums">Win rate</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {rows.length === 0 ? (
+                        <tr><td colSpan={5} className="py-4 text-center text-slate-400">No settled bets yet</td></tr>
+                      ) : rows.map(r => (
+                        <tr key={r.group} className={rowClass(r.settled)}>
+                          <td className={'py-2 pr-3' + (['No competition', 'No team'].includes(r.group) ? ' opacity-60' : '')}>{r.group}</td>
+                          <td className="py-2 pr-3 text-right tabular-nums"><SampleCount settled={r.settled} /></td>
+                          <td className={'py-2 pr-3 text-right tabular-nums ' + (r.profit >= 0 ? 'text-emerald-400' : 'text-rose-400')}>
+                            {money(r.profit)}
+                          </td>
+                          <td className="py-2 pr-3 text-right tabular-nums"><WithInterval value={r.roi} ci={r.roiCi} /></td>
+                          <td className="py-2 pr-3 text-right tabular-nums"><WithInterval value={r.winRate} ci={r.winRateCi} /></td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Multiples, leg level */}
+          <div className={card}>
+            <div className="flex items-center justify-between mb-2">
+              <div className="text-sm opacity-80">Multiples by leg</div>
+              <div className="text-xs opacity-60">decided legs only in win rate</div>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="text-left text-slate-300 border-b border-slate-800">
+                  <tr>
+                    <th className="py-2 pr-3">Market</th>
+                    <th className="py-2 pr-3 text-right tabular-nums">Legs</th>
+                    <th className="py-2 pr-3 text-right tabular-nums">Won</th>
+                    <th className="py-2 pr-3 text-right tabular-nums">Lost</th>
+                    <th className="py-2 pr-3 text-right tabular-nums">Void</th>
+                    <th className="py-2 pr-3 text-right tabular-nums">Avg odds</th>
+                    <th className="py-2 pr-3 text-right tabular-nums">Leg win rate</th>
+                    <th className="py-2 pr-3 text-right tabular-nums">Multiples killed</th>
+                    <th className="py-2 pr-3 text-right tabular-nums">Stake lost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {legBreakdown.length === 0 ? (
+                    <tr><td colSpan={9} className="py-4 text-center text-slate-400">No multiples yet</td></tr>
+                  ) : legBreakdown.map(r => (
+                    <tr key={r.market} className="border-b border-slate-800/80">
+                      <td className="py-2 pr-3">{r.market}</td>
+                      <td className="py-2 pr-3 text-right tabular-nums">{r.legs}</td>
+                      <td className="py-2 pr-3 text-right tabular-nums">{r.won}</td>
+                      <td className="py-2 pr-3 text-right tabular-nums">{r.lost}</td>
+                      <td className="py-2 pr-3 text-right tabular-nums">{r.void}</td>
+                      <td className="py-2 pr-3 text-right tabular-nums">{fmtOdds(r.avgOdds)}</td>
                       <td className="py-2 pr-3 text-right tabular-nums">{percentFmt.format(r.winRate)}</td>
+                      <td className="py-2 pr-3 text-right tabular-nums">{r.killed}</td>
+                      <td className={'py-2 pr-3 text-right tabular-nums ' + (r.killedStake > 0 ? 'text-rose-400' : '')}>{money(r.killedStake)}</td>
                     </tr>
                   ))}
                 </tbody>
@@ -508,35 +1370,51 @@ function InsightsInner() {
             </div>
           </div>
 
-          {/* Football categories */}
+          {/* Cash-out analysis */}
           <div className={card}>
             <div className="flex items-center justify-between mb-2">
-              <div className="text-sm opacity-80">Football categories</div>
-              <div className="text-xs opacity-60">settled only</div>
+              <div className="text-sm opacity-80">Cash-out analysis</div>
+              <div className="text-xs opacity-60">comparison once the market has settled</div>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3 sm:gap-4 mb-3">
+              <Metric label="Bets cashed out" val={String(cashOutAnalysis.rows.length)} />
+              <Metric label="Total cashed" val={money(cashOutAnalysis.totalCashed)} />
+              <Metric label="Would have paid" val={money(cashOutAnalysis.leftAlone)} />
+              <Metric label="Cash-out effect" val={money(cashOutAnalysis.effect)} num={cashOutAnalysis.effect} posNeg />
+              <Metric label="Cash-outs that helped" val={`${cashOutAnalysis.helped} of ${cashOutAnalysis.decided}`} />
             </div>
             <div className="overflow-x-auto">
               <table className="w-full text-sm">
                 <thead className="text-left text-slate-300 border-b border-slate-800">
                   <tr>
-                    <th className="py-2 pr-3">Category</th>
-                    <th className="py-2 pr-3 text-right tabular-nums">Staked</th>
-                    <th className="py-2 pr-3 text-right tabular-nums">Returned</th>
-                    <th className="py-2 pr-3 text-right tabular-nums">Profit</th>
-                    <th className="py-2 pr-3 text-right tabular-nums">Win rate</th>
+                    <th className="py-2 pr-3">Date</th>
+                    <th className="py-2 pr-3">Bet</th>
+                    <th className="py-2 pr-3 text-right tabular-nums">Stake</th>
+                    <th className="py-2 pr-3 text-right tabular-nums">Cashed</th>
+                    <th className="py-2 pr-3">Result</th>
+                    <th className="py-2 pr-3 text-right tabular-nums">Our return</th>
+                    <th className="py-2 pr-3 text-right tabular-nums">Left alone</th>
+                    <th className="py-2 pr-3 text-right tabular-nums">Effect</th>
                   </tr>
                 </thead>
                 <tbody>
-                  {byCategory.length === 0 ? (
-                    <tr><td colSpan={5} className="py-4 text-center text-slate-400">No settled football bets yet</td></tr>
-                  ) : byCategory.map(r => (
-                    <tr key={r.category as string} className="border-b border-slate-800/80">
-                      <td className="py-2 pr-3">{r.category}</td>
-                      <td className="py-2 pr-3 text-right tabular-nums">{currency.format(r.staked)}</td>
-                      <td className="py-2 pr-3 text-right tabular-nums">{currency.format(r.returned)}</td>
-                      <td className={'py-2 pr-3 text-right tabular-nums ' + (r.profit >= 0 ? 'text-emerald-400' : 'text-rose-400')}>
-                        {currency.format(r.profit)}
+                  {cashOutAnalysis.rows.length === 0 ? (
+                    <tr><td colSpan={8} className="py-4 text-center text-slate-400">No cash-outs yet</td></tr>
+                  ) : cashOutAnalysis.rows.map(r => (
+                    <tr key={r.bet.id} className="border-b border-slate-800/80">
+                      <td className="py-2 pr-3 whitespace-nowrap">{r.bet.date}</td>
+                      <td className="py-2 pr-3">{r.bet.description}</td>
+                      <td className="py-2 pr-3 text-right tabular-nums">{money(r.bet.stake)}</td>
+                      <td className="py-2 pr-3 text-right tabular-nums">
+                        {money(r.cashed)}
+                        <span className="text-xs opacity-60"> {r.full ? 'full' : `for ${money(r.released)}`}</span>
+                      </td>
+                      <td className="py-2 pr-3">{r.bet.status}</td>
+                      <td className="py-2 pr-3 text-right tabular-nums">{r.actual === null ? 'N/A' : money(r.actual)}</td>
+                      <td className="py-2 pr-3 text-right tabular-nums">{r.leftAlone === null ? 'N/A' : money(r.leftAlone)}</td>
+                      <td className={'py-2 pr-3 text-right tabular-nums ' + (r.effect === null ? '' : r.effect >= 0 ? 'text-emerald-400' : 'text-rose-400')}>
+                        {r.effect === null ? 'N/A' : money(r.effect)}
                       </td>
-                      <td className="py-2 pr-3 text-right tabular-nums">{percentFmt.format(r.winRate)}</td>
                     </tr>
                   ))}
                 </tbody>
@@ -548,7 +1426,7 @@ function InsightsInner() {
           <div className={card}>
             <div className="flex items-center justify-between mb-2">
               <div className="text-sm opacity-80">Odds bands calibration</div>
-              <div className="text-xs opacity-60">settled only</div>
+              <div className="text-xs opacity-60">settled only, 95% intervals, edge coloured when p is under 0.05, greyed under {MIN_SAMPLE} bets</div>
             </div>
             <div className="overflow-x-auto">
               <table className="w-full text-sm">
@@ -561,27 +1439,31 @@ function InsightsInner() {
                     <th className="py-2 pr-3 text-right tabular-nums">Implied</th>
                     <th className="py-2 pr-3 text-right tabular-nums">Win rate</th>
                     <th className="py-2 pr-3 text-right tabular-nums">Edge</th>
+                    <th className="py-2 pr-3 text-right tabular-nums" title="Chance of an edge at least this big from luck alone, against each bet's implied chance">p-value</th>
                     <th className="py-2 pr-3 text-right tabular-nums">ROI</th>
                     <th className="py-2 pr-3 text-right tabular-nums">Profit</th>
                   </tr>
                 </thead>
                 <tbody>
                   {oddsBands.map(r => (
-                    <tr key={r.band} className="border-b border-slate-800/80">
+                    <tr key={r.band} className={rowClass(r.bets)}>
                       <td className="py-2 pr-3">{r.band}</td>
-                      <td className="py-2 pr-3 text-right tabular-nums">{r.bets}</td>
-                      <td className="py-2 pr-3 text-right tabular-nums">{r.wins}</td>
-                      <td className="py-2 pr-3 text-right tabular-nums">{r.avgOdds ? r.avgOdds.toFixed(2) : '0.00'}</td>
+                      <td className="py-2 pr-3 text-right tabular-nums"><SampleCount settled={r.bets} /></td>
+                      <td className="py-2 pr-3 text-right tabular-nums">{+r.wins.toFixed(1)}</td>
+                      <td className="py-2 pr-3 text-right tabular-nums">{r.avgOdds ? fmtOdds(r.avgOdds) : 'N/A'}</td>
                       <td className="py-2 pr-3 text-right tabular-nums">{percentFmt.format(r.implied)}</td>
-                      <td className="py-2 pr-3 text-right tabular-nums">{percentFmt.format(r.winRate)}</td>
-                      <td className={'py-2 pr-3 text-right tabular-nums ' + (r.winRate - r.implied >= 0 ? 'text-emerald-400' : 'text-rose-400')}>
+                      <td className="py-2 pr-3 text-right tabular-nums"><WithInterval value={r.winRate} ci={r.winRateCi} /></td>
+                      <td className={'py-2 pr-3 text-right tabular-nums ' + (r.significance && r.significance.p < 0.05 ? (r.winRate - r.implied >= 0 ? 'text-emerald-400' : 'text-rose-400') : '')}>
                         {percentFmt.format(r.winRate - r.implied)}
                       </td>
+                      <td className="py-2 pr-3 text-right tabular-nums" title={r.significance ? `z = ${r.significance.z.toFixed(2)}` : undefined}>
+                        {r.significance ? formatP(r.significance.p) : 'N/A'}
+                      </td>
                       <td className={'py-2 pr-3 text-right tabular-nums ' + (r.roi >= 0 ? 'text-emerald-400' : 'text-rose-400')}>
-                        {percentFmt.format(r.roi)}
+                        <WithInterval value={r.roi} ci={r.roiCi} />
                       </td>
                       <td className={'py-2 pr-3 text-right tabular-nums ' + (r.profit >= 0 ? 'text-emerald-400' : 'text-rose-400')}>
-                        {currency.format(r.profit)}
+                        {money(r.profit)}
                       </td>
                     </tr>
                   ))}
@@ -590,17 +1472,190 @@ function InsightsInner() {
             </div>
           </div>
 
+          {/* Promotions */}
+          <div className={card}>
+            <div className="flex items-center justify-between mb-2">
+              <div className="text-sm opacity-80">Promotions</div>
+              <div className="text-xs opacity-60">free bets, bonus stakes and linked cash bets, kept out of cash ROI</div>
+            </div>
+            {promoValue.bets === 0 ? (
+              <div className="py-4 text-center text-sm text-slate-400">No free bets, bonus stakes or promotion bets yet</div>
+            ) : (
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 sm:gap-4">
+                  <Metric label="Value extracted" val={money(promoValue.value)} num={promoValue.value} posNeg />
+                  <Metric label="Free and bonus stakes" val={money(promoValue.promoStake)} />
+                  <Metric label="Returned from them" val={money(promoValue.promoReturn)} />
+                  <Metric label="Conversion" val={promoValue.conversion === null ? 'N/A' : percentFmt.format(promoValue.conversion)} />
+                </div>
+                {([['Promotion', promoValue.byPromotion], ['Bookmaker', promoValue.byBookmaker]] as const).map(([title, rows]) => (
+                  <div key={title} className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead className="text-left text-slate-300 border-b border-slate-800">
+                        <tr>
+                          <th className="py-2 pr-3">{title}</th>
+                          <th className="py-2 pr-3 text-right tabular-nums">Bets</th>
+                          <th className="py-2 pr-3 text-right tabular-nums">Promo stakes</th>
+                          <th className="py-2 pr-3 text-right tabular-nums">Returned</th>
+                          <th className="py-2 pr-3 text-right tabular-nums">Conversion</th>
+                          <th className="py-2 pr-3 text-right tabular-nums">Qualifying P/L</th>
+                          <th className="py-2 pr-3 text-right tabular-nums">Value</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {rows.map(r => (
+                          <tr key={r.name} className="border-b border-slate-800/80">
+                            <td className="py-2 pr-3">{r.name}{r.pending > 0 && <span className="ml-2 text-xs opacity-60">{r.pending} pending</span>}</td>
+                            <td className="py-2 pr-3 text-right tabular-nums">{r.bets}</td>
+                            <td className="py-2 pr-3 text-right tabular-nums">{money(r.promoStake)}</td>
+                            <td className="py-2 pr-3 text-right tabular-nums">{money(r.promoReturn)}</td>
+                            <td className="py-2 pr-3 text-right tabular-nums">{r.conversion === null ? 'N/A' : percentFmt.format(r.conversion)}</td>
+                            <td className={'py-2 pr-3 text-right tabular-nums ' + (r.qualifying >= 0 ? 'text-emerald-400' : 'text-rose-400')}>{money(r.qualifying)}</td>
+                            <td className={'py-2 pr-3 text-right tabular-nums ' + (r.value >= 0 ? 'text-emerald-400' : 'text-rose-400')}>{money(r.value)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Closing line value */}
+          <div className={card}>
+            <div className="flex items-center justify-between mb-2">
+              <div className="text-sm opacity-80">Closing line value</div>
+              <div className="text-xs opacity-60">{clv.bets} bets with closing odds, {percentFmt.format(clv.coverage)} of those shown</div>
+            </div>
+            {clv.bets === 0 ? (
+              <div className="py-4 text-center text-sm text-slate-400">Add closing odds when editing a bet to see how your prices compare with the close</div>
+            ) : (
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 sm:gap-4">
+                  <Metric label="Avg CLV" val={clvFmt.format(clv.avgClv)} num={clv.avgClv} posNeg />
+                  <Metric label="Beat the close" val={percentFmt.format(clv.beatShare)} />
+                  <Metric label="Bets" val={String(clv.bets)} />
+                  <Metric label="Coverage" val={percentFmt.format(clv.coverage)} />
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {([['Sport', clv.bySport], ['Market', clv.byMarket], ['Tag', clv.byTag], ['Odds band', clv.byBand]] as const).map(([title, rows]) => (
+                    <div key={title} className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead className="text-left text-slate-300 border-b border-slate-800">
+                          <tr>
+                            <th className="py-2 pr-3">{title}</th>
+                            <th className="py-2 pr-3 text-right tabular-nums">Bets</th>
+                            <th className="py-2 pr-3 text-right tabular-nums">Avg CLV</th>
+                            <th className="py-2 pr-3 text-right tabular-nums">Beat</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {rows.length === 0 ? (
+                            <tr><td colSpan={4} className="py-4 text-center text-slate-400">None yet</td></tr>
+                          ) : rows.map(r => (
+                            <tr key={r.group} className="border-b border-slate-800/80">
+                              <td className="py-2 pr-3">{r.group}</td>
+                              <td className="py-2 pr-3 text-right tabular-nums">{r.bets}</td>
+                              <td className={'py-2 pr-3 text-right tabular-nums ' + (r.avgClv >= 0 ? 'text-emerald-400' : 'text-rose-400')}>{clvFmt.format(r.avgClv)}</td>
+                              <td className="py-2 pr-3 text-right tabular-nums">{percentFmt.format(r.beatShare)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  ))}
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="text-left text-slate-300 border-b border-slate-800">
+                      <tr>
+                        <th className="py-2 pr-3">Month</th>
+                        <th className="py-2 pr-3 text-right tabular-nums">Bets</th>
+                        <th className="py-2 pr-3 text-right tabular-nums">Avg CLV</th>
+                        <th className="py-2 pr-3 text-right tabular-nums">Beat</th>
+                        <th className="py-2 pr-3 text-right tabular-nums">Settled</th>
+                        <th className="py-2 pr-3 text-right tabular-nums">ROI</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {clv.months.map(r => (
+                        <tr key={r.group} className="border-b border-slate-800/80">
+                          <td className="py-2 pr-3">{r.group}</td>
+                          <td className="py-2 pr-3 text-right tabular-nums">{r.bets}</td>
+                          <td className={'py-2 pr-3 text-right tabular-nums ' + (r.avgClv >= 0 ? 'text-emerald-400' : 'text-rose-400')}>{clvFmt.format(r.avgClv)}</td>
+                          <td className="py-2 pr-3 text-right tabular-nums">{percentFmt.format(r.beatShare)}</td>
+                          <td className="py-2 pr-3 text-right tabular-nums">{r.settled}</td>
+                          <td className={'py-2 pr-3 text-right tabular-nums ' + (r.roi === null ? '' : r.roi >= 0 ? 'text-emerald-400' : 'text-rose-400')}>
+                            {r.roi === null ? 'N/A' : percentFmt.format(r.roi)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Challenge runs */}
+          <div className={card}>
+            <div className="flex items-center justify-between mb-2">
+              <div className="text-sm opacity-80">Challenge runs</div>
+              <div className="text-xs opacity-60">all runs, ignores filters</div>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 sm:gap-4 mb-3">
+              <Metric label="Attempts" val={`${challenge.attempts}${challenge.running ? ` (+${challenge.running} running)` : ''}`} />
+              <Metric label="Success rate" val={percentFmt.format(challenge.successRate)} />
+              <Metric label="Tries per hit" val={challenge.triesPerHit ? challenge.triesPerHit.toFixed(1) : 'N/A'} />
+              <Metric label="Avg steps before bust" val={challenge.avgStepsBeforeBust.toFixed(1)} />
+              <Metric label="Avg odds per step" val={challenge.avgOddsPerStep ? fmtOdds(challenge.avgOddsPerStep) : 'N/A'} />
+              <Metric label="Cost of failed runs" val={money(challenge.failedCost)} />
+              <Metric label="Payout of hits" val={money(challenge.successPayout)} />
+              <Metric label="Net" val={money(challenge.net)} num={challenge.net} posNeg />
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="text-left text-slate-300 border-b border-slate-800">
+                  <tr>
+                    <th className="py-2 pr-3">Started</th>
+                    <th className="py-2 pr-3">Path</th>
+                    <th className="py-2 pr-3 text-right tabular-nums">Steps</th>
+                    <th className="py-2 pr-3 text-right tabular-nums">Start</th>
+                    <th className="py-2 pr-3 text-right tabular-nums">Finish</th>
+                    <th className="py-2 pr-3">Outcome</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {challenge.runs.length === 0 ? (
+                    <tr><td colSpan={6} className="py-4 text-center text-slate-400">No challenge runs yet</td></tr>
+                  ) : challenge.runs.map(r => (
+                    <tr key={r.run.id} className="border-b border-slate-800/80">
+                      <td className="py-2 pr-3 whitespace-nowrap">{r.run.startedAt.slice(0, 10)}</td>
+                      <td className="py-2 pr-3">{r.steps.map(b => fmtOdds(b.oddsDecimal)).join(' → ') || 'N/A'}</td>
+                      <td className="py-2 pr-3 text-right tabular-nums">{r.steps.length}</td>
+                      <td className="py-2 pr-3 text-right tabular-nums">{money(r.run.startStake)}</td>
+                      <td className="py-2 pr-3 text-right tabular-nums">{money(r.finalReturn)}</td>
+                      <td className={'py-2 pr-3 ' + (r.outcome === 'Hit' ? 'text-emerald-400' : r.outcome === 'Bust' ? 'text-rose-400' : '')}>{r.outcome}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
           {/* Weekday performance */}
           <div className={card}>
             <div className="flex items-center justify-between mb-2">
               <div className="text-sm opacity-80">Weekday performance</div>
-              <div className="text-xs opacity-60">settled only</div>
+              <div className="text-xs opacity-60">settled only, 95% intervals, greyed under {MIN_SAMPLE} bets</div>
             </div>
             <div className="overflow-x-auto">
               <table className="w-full text-sm">
                 <thead className="text-left text-slate-300 border-b border-slate-800">
                   <tr>
                     <th className="py-2 pr-3">Day</th>
+                    <th className="py-2 pr-3 text-right tabular-nums">Settled</th>
                     <th className="py-2 pr-3 text-right tabular-nums">Staked</th>
                     <th className="py-2 pr-3 text-right tabular-nums">Returned</th>
                     <th className="py-2 pr-3 text-right tabular-nums">Profit</th>
@@ -610,15 +1665,16 @@ function InsightsInner() {
                 </thead>
                 <tbody>
                   {byWeekday.map(r => (
-                    <tr key={r.day} className="border-b border-slate-800/80">
+                    <tr key={r.day} className={rowClass(r.settled)}>
                       <td className="py-2 pr-3">{r.day}</td>
-                      <td className="py-2 pr-3 text-right tabular-nums">{currency.format(r.staked)}</td>
-                      <td className="py-2 pr-3 text-right tabular-nums">{currency.format(r.returned)}</td>
+                      <td className="py-2 pr-3 text-right tabular-nums"><SampleCount settled={r.settled} /></td>
+                      <td className="py-2 pr-3 text-right tabular-nums">{money(r.staked)}</td>
+                      <td className="py-2 pr-3 text-right tabular-nums">{money(r.returned)}</td>
                       <td className={'py-2 pr-3 text-right tabular-nums ' + (r.profit >= 0 ? 'text-emerald-400' : 'text-rose-400')}>
-                        {currency.format(r.profit)}
+                        {money(r.profit)}
                       </td>
-                      <td className="py-2 pr-3 text-right tabular-nums">{percentFmt.format(r.winRate)}</td>
-                      <td className="py-2 pr-3 text-right tabular-nums">{percentFmt.format(r.roi)}</td>
+                      <td className="py-2 pr-3 text-right tabular-nums"><WithInterval value={r.winRate} ci={r.winRateCi} /></td>
+                      <td className="py-2 pr-3 text-right tabular-nums"><WithInterval value={r.roi} ci={r.roiCi} /></td>
                     </tr>
                   ))}
                 </tbody>
@@ -626,7 +1682,7 @@ function InsightsInner() {
             </div>
           </div>
 
-          <footer className="text-center text-xs opacity-60 pt-2 pb-2">Insights are based on data in this browser.</footer>
+          <footer className="text-center text-xs opacity-60 pt-2 pb-2">{STORAGE_MODE === 'local' ? 'Insights are based on data in this browser.' : `Insights are based on data saved on the server and cached in this browser (${sync.status}).`}</footer>
         </div>
       )}
     </div>
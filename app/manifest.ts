@@ -0,0 +1,18 @@
+import type { MetadataRoute } from 'next';
+
+// Lets the tracker install to the home screen, public/sw.js keeps it working offline
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'Roller Bets',
+    short_name: 'Roller Bets',
+    description: 'Track rollers, accas and challenge runs, with insights on what is working.',
+    start_url: '/',
+    display: 'standalone',
+    background_color: '#020617',
+    theme_color: '#020617',
+    icons: [
+      { src: '/icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'any' },
+      { src: '/icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'maskable' },
+    ],
+  };
+}
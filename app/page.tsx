@@ -3,38 +3,65 @@
 import React, { Suspense, useEffect, useMemo, useRef, useState } from 'react';
 import { usePathname, useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
+import PasteSlipDialog from '@/components/PasteSlipDialog';
+import ProfileSwitcher from '@/components/ProfileSwitcher';
+import StorageBanner from '@/components/StorageBanner';
+import SyncBanner from '@/components/SyncBanner';
+import { addBets, BETS_KEY, DEFAULT_STATE, loadLedger, saveBets, saveState, StorageIssue } from '@/lib/storage';
+import { STORAGE_MODE } from '@/lib/config';
+import { useServerSync } from '@/lib/sync';
+import { useTabSync } from '@/lib/tabs';
+import { fieldChanges, FieldChange, useBetHistory } from '@/lib/history';
+import { readBetEvents } from '@/lib/db';
+import { Profiles, transferredBets, useProfiles } from '@/lib/profiles';
+import { cashStake, defaultReturn, effectiveReturn, isBetSettled, isCashStake, isSettled, outcomeWeight, remainingStake, runOutcome } from '@/lib/bets';
+import { accountBalance, bankrollSeries, totalBalance, transactionAmount } from '@/lib/accounts';
+import { currentBankroll, DEFAULT_PLANS, recommendedStake, STAKING_PLAN_LABEL } from '@/lib/staking';
+import { baseCurrency, betCurrency, convert, currencySymbol, formatMoney, inBaseCurrency, missingRates } from '@/lib/currency';
+import { closingLineValue, formatOdds, ODDS_FORMAT_LABEL, ODDS_PLACEHOLDER, parseOdds } from '@/lib/odds';
+import { applyLegs, legsOdds, legsStatus, multipleName } from '@/lib/legs';
+import { isQuickEntry, parseQuickEntry, quickRules } from '@/lib/quickEntry';
+import { allCompetitions, allTags, allTeams, breakdown, Dimension, DIMENSION_LABEL, DIMENSIONS, fixture, marketsFor, parseTags, sportDefs, sportNames } from '@/lib/taxonomy';
+import { AccountTransaction, AppState, Bet, BET_STATUSES, BetEvent, BetLeg, BetStatus, BookmakerAccount, ChallengeRun, CURRENCIES, CurrencyCode, DEFAULT_PROFILE, ExchangeRate, LEG_STATUSES, LegStatus, ODDS_FORMATS, OddsFormat, Promotion, QuickRule, Sport, STAKE_TYPES, StakeType, StakingPlan, StakingPlanKind, SportDef, TRANSACTION_KINDS, TransactionKind } from '@/lib/types';
 
 // -------- Types --------
-type Sport = 'Football' | 'Cricket' | 'Tennis' | 'Other';
-type BetStatus = 'Pending' | 'Won' | 'Lost';
+type ChainStatus = 'Running' | 'Bust' | 'Banked';
 
-type FootballCategory = 'Goals' | 'Corners' | 'Result' | 'Double Chance' | 'Other';
-type FootballCategoryKey = FootballCategory | 'Uncategorised';
+// Odds are kept as typed, in any format, until the bet is saved
+type LegDraft = { id: string; description: string; sport: Sport; market?: string; odds: string; status: LegStatus };
 
-type Bet = {
-  id: string;
-  date: string; // yyyy-mm-dd
+type BetForm = {
+  date: string;
   description: string;
   sport: Sport;
-  category?: FootballCategory;
-  stake: number; // GBP
-  oddsDecimal: number;
+  market?: string;
+  tags?: string; // comma separated
+  competition?: string;
+  home?: string;
+  away?: string;
+  kickoff?: string; // yyyy-mm-ddThh:mm as the datetime input gives it
+  stake: string;
+  currency?: CurrencyCode; // base currency when unset
+  odds: string;
   status: BetStatus;
-  returnOverride?: number; // allows cash out or manual value
-  settledAt?: string; // ISO timestamp when status was set from Pending
-  createdAt: string; // ISO
-  updatedAt: string; // ISO
+  returnOverride?: string;
+  eachWay?: { placeFraction: string; places: string }; // present when the bet is each-way
+  legs?: LegDraft[]; // present while entering a multiple
+  parentId?: string;
+  chainId?: string;
+  runId?: string;
+  accountId?: string;
+  stakeType?: StakeType; // Cash when unset
+  promotionId?: string;
+  probability?: string; // percent, only asked for under a Kelly plan
 };
 
-type AppState = {
-  targetProfit: number;
-  startingBankroll?: number;
-  theme: 'dark' | 'light';
-};
+// Fields read from the Bet input, as the user corrected them before filling in the form
+type QuickDraft = { description: string; stake: string; odds: string; sport: Sport; market: string };
 
 // -------- Utilities --------
-const currency = new Intl.NumberFormat('en-GB', { style: 'currency', currency: 'GBP' });
 const percentFmt = new Intl.NumberFormat('en-GB', { style: 'percent', minimumFractionDigits: 0, maximumFractionDigits: 0 });
+const clvFmt = new Intl.NumberFormat('en-GB', { style: 'percent', minimumFractionDigits: 1, maximumFractionDigits: 1, signDisplay: 'exceptZero' });
 
 const uid = () => Math.random().toString(36).slice(2) + Date.now().toString(36);
 
@@ -44,23 +71,25 @@ function parseNum(n: unknown, fallback = 0) {
   return Number.isFinite(v) ? v : fallback;
 }
 
-function isSettled(s: BetStatus) { return s === 'Won' || s === 'Lost'; }
-
-function defaultReturn(bet: Bet): number | null {
-  if (bet.status === 'Won') return +(bet.stake * bet.oddsDecimal).toFixed(2);
-  if (bet.status === 'Lost') return 0;
-  return null;
-}
+const HISTORY_FIELD_LABEL: Record<FieldChange['field'], string> = {
+  stake: 'Stake',
+  oddsDecimal: 'Odds',
+  closingOdds: 'Closing odds',
+  status: 'Status',
+  returnOverride: 'Return override',
+  cashOuts: 'Cash outs',
+  stakeType: 'Stake type',
+};
 
-function effectiveReturn(bet: Bet): number | null {
-  if (isSettled(bet.status)) {
-    if (bet.returnOverride !== undefined && bet.returnOverride !== null) {
-      return +bet.returnOverride.toFixed(2);
-    }
-    return defaultReturn(bet);
-  }
-  return null;
-}
+const STATUS_BADGE: Record<BetStatus, string> = {
+  'Pending': 'bg-slate-700/70',
+  'Won': 'bg-emerald-600/70',
+  'Half Won': 'bg-emerald-700/50',
+  'Placed': 'bg-amber-600/60',
+  'Void': 'bg-slate-600/60',
+  'Half Lost': 'bg-rose-700/50',
+  'Lost': 'bg-rose-600/70',
+};
 
 function toISODateInput(d = new Date()) {
   const y = d.getFullYear();
@@ -69,6 +98,32 @@ function toISODateInput(d = new Date()) {
   return `${y}-${m}-${dd}`;
 }
 
+// Local time in the datetime input's format, kickoffs compare against it as strings
+function toLocalDateTime(d = new Date()) {
+  return `${toISODateInput(d)}T${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
+}
+
+function eventFields(v: { competition?: string; home?: string; away?: string; kickoff?: string }): Pick<Bet, 'competition' | 'home' | 'away' | 'kickoff'> {
+  return {
+    competition: v.competition?.trim() || undefined,
+    home: v.home?.trim() || undefined,
+    away: v.away?.trim() || undefined,
+    kickoff: v.kickoff || undefined,
+  };
+}
+
+// Pending bets come first, soonest kickoff at the top and those without one after. The rest newest first.
+function byKickoffThenDate(a: Bet, b: Bet) {
+  const pa = a.status === 'Pending', pb = b.status === 'Pending';
+  if (pa !== pb) return pa ? -1 : 1;
+  if (pa && (a.kickoff || b.kickoff)) {
+    if (!a.kickoff) return 1;
+    if (!b.kickoff) return -1;
+    if (a.kickoff !== b.kickoff) return a.kickoff.localeCompare(b.kickoff);
+  }
+  return b.date.localeCompare(a.date);
+}
+
 function clamp01(v: number) { return Math.max(0, Math.min(1, v)); }
 
 // Simple SVG line renderer for cumulative profit
@@ -114,98 +169,505 @@ function LineChart({ points, height = 180 }: { points: { x: number; y: number; l
 }
 
 // -------- Main Component --------
+// Each profile gets a fresh tracker, so nothing from the last one's ledger carries over
 export default function RollerBetsTracker() {
+  const profiles = useProfiles();
+  if (!profiles.activeId) {
+    return (
+      <div className="min-h-screen bg-slate-950 text-slate-100">
+        <div className="max-w-6xl mx-auto px-4 py-6">
+          <div className="text-center py-12"><div className="text-lg">Loading...</div></div>
+        </div>
+      </div>
+    );
+  }
+  return <Tracker key={profiles.activeId} profileId={profiles.activeId} profiles={profiles} />;
+}
+
+function Tracker({ profileId, profiles }: { profileId: string; profiles: Profiles }) {
   // App state
-  const [state, setState] = useState<AppState>({ targetProfit: 100, startingBankroll: 5, theme: 'dark' });
+  const [state, setState] = useState<AppState>(DEFAULT_STATE);
   const [bets, setBets] = useState<Bet[]>([]);
   const [isClient, setIsClient] = useState(false);
+  const [storageIssues, setStorageIssues] = useState<StorageIssue[]>([]);
 
-  // Initialize client-side data
+  // Initialize client-side data. Saving waits for isClient, so nothing is written before the load finishes.
   useEffect(() => {
-    setIsClient(true);
-    try {
-      const rawState = localStorage.getItem('rb.state');
-      if (rawState) setState(JSON.parse(rawState) as AppState);
-      const rawBets = localStorage.getItem('rb.bets');
-      if (rawBets) {
-        setBets(JSON.parse(rawBets) as Bet[]);
-      } else {
-        // seed two examples on first run
+    loadLedger(profileId).then(loaded => {
+      setState(loaded.state);
+      setStorageIssues(loaded.issues);
+      if (loaded.hadBets) {
+        setBets(loaded.bets);
+      } else if (STORAGE_MODE === 'local' && profileId === DEFAULT_PROFILE.id) {
+        // seed two examples on first run, the server may already hold bets from another device
         setBets([
           { id: uid(), date: toISODateInput(), description: 'Chelsea BTTS', sport: 'Football', stake: 5, oddsDecimal: 1.53, status: 'Lost', returnOverride: 0, settledAt: new Date().toISOString(), createdAt: new Date().toISOString(), updatedAt: new Date().toISOString() },
           { id: uid(), date: toISODateInput(), description: 'ATP match winner', sport: 'Tennis', stake: 10, oddsDecimal: 2.1, status: 'Pending', createdAt: new Date().toISOString(), updatedAt: new Date().toISOString() },
         ]);
       }
-    } catch {}
-  }, []);
+      setIsClient(true);
+    }, () => {
+      setStorageIssues([{ source: BETS_KEY, message: 'the browser database could not be opened, changes will not be saved' }]);
+    });
+  }, [profileId]);
 
-  const [lastDeleted, setLastDeleted] = useState<Bet | null>(null);
   const [toast, setToast] = useState<string | null>(null);
-  const undoTimer = useRef<number | null>(null);
 
+  // The browser copy is kept in server mode too, as the offline cache
   useEffect(() => {
-    if (isClient) localStorage.setItem('rb.bets', JSON.stringify(bets));
-  }, [bets, isClient]);
+    if (isClient) saveBets(profileId, bets);
+  }, [bets, isClient, profileId]);
+
+  const sync = useServerSync({ ready: isClient, profileId, bets, state, setBets, setState });
+  // User changes to bets go through history.change, which records them and makes them undoable
+  const history = useBetHistory({ ready: isClient, profileId, bets, setBets });
 
   useEffect(() => {
     if (!isClient) return;
-    localStorage.setItem('rb.state', JSON.stringify(state));
+    saveState(profileId, state);
     document.documentElement.classList.toggle('dark', state.theme === 'dark');
-  }, [state, isClient]);
+  }, [state, isClient, profileId]);
+
+  const base = baseCurrency(state);
+  const money = (amount: number, code: CurrencyCode = base) => formatMoney(amount, code);
+  // Every total below is in the base currency, rows keep their own
+  const baseBets = useMemo(() => bets.map(b => inBaseCurrency(b, state)), [bets, state]);
+
+  const oddsFormat = state.oddsFormat ?? 'decimal';
+  const fmtOdds = (decimal: number) => formatOdds(decimal, oddsFormat);
+  // Shows the decimal price that will be stored for whatever was typed
+  const oddsHint = (raw: string) => {
+    const d = parseOdds(raw);
+    return d === null ? 'Decimal, fractional (11/8) or American (+150)' : `Stored as ${d.toFixed(3)}`;
+  };
 
   // Derived metrics
   const totals = useMemo(() => {
-    const settled = bets.filter(b => isSettled(b.status));
-    const totalStaked = +bets.reduce((s, b) => s + b.stake, 0).toFixed(2);
+    const settled = baseBets.filter(b => isBetSettled(b));
+    const totalStaked = +baseBets.reduce((s, b) => s + cashStake(b), 0).toFixed(2);
     const totalReturned = +settled.reduce((s, b) => s + (effectiveReturn(b) ?? 0), 0).toFixed(2);
-    const profit = +(totalReturned - settled.reduce((s, b) => s + b.stake, 0)).toFixed(2);
-    const winRate = settled.length ? (settled.filter(b => b.status === 'Won').length / settled.length) : 0;
+    const profit = +(totalReturned - settled.reduce((s, b) => s + cashStake(b), 0)).toFixed(2);
+    const weighted = settled.reduce((acc, b) => {
+      const w = outcomeWeight(b.status);
+      return { settled: acc.settled + w.settled, won: acc.won + w.won };
+    }, { settled: 0, won: 0 });
+    const winRate = weighted.settled ? weighted.won / weighted.settled : 0;
     const progress = state.targetProfit > 0 ? clamp01(profit / state.targetProfit) : 0;
     return { totalStaked, totalReturned, profit, winRate, progress };
-  }, [bets, state.targetProfit]);
+  }, [baseBets, state.targetProfit]);
 
   // Cumulative profit series, by date
   const cumulative = useMemo(() => {
-    const settled = bets.filter(b => isSettled(b.status)).slice().sort((a, b) => a.date.localeCompare(b.date));
+    const settled = baseBets.filter(b => isBetSettled(b)).slice().sort((a, b) => a.date.localeCompare(b.date));
     let running = 0;
     const points: { date: string; value: number }[] = [];
     for (const b of settled) {
       const ret = effectiveReturn(b) ?? 0;
-      running += ret - b.stake;
+      running += ret - cashStake(b);
       points.push({ date: b.date, value: +running.toFixed(2) });
     }
     if (points.length) points.unshift({ date: points[0].date, value: 0 });
     return points;
-  }, [bets]);
+  }, [baseBets]);
 
   const chartPoints = useMemo(() => cumulative.map((p, i) => ({ x: i, y: p.value, label: p.date })), [cumulative]);
 
+  const accounts = useMemo(() => state.accounts ?? [], [state.accounts]);
+  const bankrollPoints = useMemo(
+    () => bankrollSeries(accounts, bets, state).map((p, i) => ({ x: i, y: p.value, label: p.date })),
+    [accounts, bets, state],
+  );
+
   // -------- Add form --------
-  const [form, setForm] = useState<{ date: string; description: string; sport: Sport; category?: FootballCategory; stake: string; oddsDecimal: string; status: BetStatus; returnOverride?: string }>({
-    date: toISODateInput(), description: '', sport: 'Football', category: 'Result', stake: '5', oddsDecimal: '1.50', status: 'Pending',
+  const [form, setForm] = useState<BetForm>({
+    date: toISODateInput(), description: '', sport: 'Football', market: 'Result', stake: '5', odds: '1.50', status: 'Pending',
   });
 
-  const addDisabled = !form.description.trim() || parseNum(form.stake) <= 0 || parseNum(form.oddsDecimal) <= 1;
+  const sportOptions = useMemo(() => sportNames(state, bets), [state, bets]);
+  const knownTags = useMemo(() => allTags(bets), [bets]);
+  const competitionOptions = useMemo(() => allCompetitions(bets, form.sport), [bets, form.sport]);
+  const teamOptions = useMemo(() => allTeams(bets, form.competition?.trim()), [bets, form.competition]);
+
+  // Suggestions complete the tag being typed after the last comma
+  function tagOptions(raw: string) {
+    const cut = raw.lastIndexOf(',');
+    const prefix = cut >= 0 ? `${raw.slice(0, cut + 1)} ` : '';
+    const used = parseTags(raw).map(t => t.toLowerCase());
+    return knownTags.filter(t => !used.includes(t.toLowerCase())).map(t => prefix + t);
+  }
+
+  const formCurrency = form.currency ?? base;
+  const formLegs: BetLeg[] | null = form.legs
+    ? form.legs.map(({ odds, ...l }) => ({ ...l, description: l.description.trim(), market: l.market || undefined, oddsDecimal: parseOdds(odds) ?? 0 }))
+    : null;
+  const formStatus = formLegs ? legsStatus(formLegs) : form.status;
+
+  const formAccount = accounts.find(a => a.id === form.accountId) ?? null;
+  const formAccountBalance = formAccount ? accountBalance(formAccount, bets, state.rates ?? []) : 0;
+  const formCash = (form.stakeType ?? 'Cash') === 'Cash';
+  const overBalance = !!formAccount && formCash
+    && convert(parseNum(form.stake), formCurrency, formAccount.currency, form.date, state.rates ?? []) > formAccountBalance + 0.005;
+
+  // -------- Staking plan --------
+  const plan = state.stakingPlan;
+  const bankroll = useMemo(() => currentBankroll(state, baseBets), [state, baseBets]);
+  const formOdds = formLegs ? legsOdds(formLegs) : parseOdds(form.odds) ?? 0;
+  const formProbability = form.probability && parseNum(form.probability) > 0 && parseNum(form.probability) < 100 ? parseNum(form.probability) / 100 : undefined;
+  const recommendedBase = plan ? recommendedStake(plan, bankroll, formOdds, formProbability) : null;
+  const recommended = recommendedBase === null ? null : +convert(recommendedBase, base, formCurrency, form.date, state.rates ?? []).toFixed(2);
+  const overPlan = recommended !== null && parseNum(form.stake) > recommended + 0.005;
+
+  function setPlan(next: StakingPlan | undefined) {
+    setState(s => ({ ...s, stakingPlan: next }));
+  }
+
+  const addDisabled = parseNum(form.stake) <= 0 || (formLegs
+    ? formLegs.some(l => !l.description || l.oddsDecimal <= 1)
+    : !form.description.trim() || (parseOdds(form.odds) ?? 0) <= 1);
+
+  // -------- Quick entry --------
+  // Corrections hold only for the text they were made against, typing on parses afresh
+  const [quickEdits, setQuickEdits] = useState<{ text: string; values: Partial<QuickDraft> } | null>(null);
+  const [quickDismissed, setQuickDismissed] = useState<string | null>(null);
+  const parsed = useMemo(() => (form.legs ? null : parseQuickEntry(form.description, state)), [form.legs, form.description, state]);
+  const quick: QuickDraft | null = parsed && isQuickEntry(parsed) && quickDismissed !== form.description
+    ? {
+      description: parsed.description,
+      stake: parsed.stake !== undefined ? parsed.stake.toFixed(2) : form.stake,
+      odds: parsed.odds !== undefined ? fmtOdds(parsed.odds) : form.odds,
+      sport: parsed.sport ?? form.sport,
+      // A sport named without a market takes its first one, unless it is the sport already picked
+      market: parsed.market ?? (parsed.sport && parsed.sport !== form.sport ? marketsFor(state, parsed.sport)[0] ?? '' : form.market ?? ''),
+      ...(quickEdits?.text === form.description ? quickEdits.values : {}),
+    }
+    : null;
+
+  function editQuick(patch: Partial<QuickDraft>) {
+    setQuickEdits(q => ({ text: form.description, values: { ...(q?.text === form.description ? q.values : {}), ...patch } }));
+  }
+
+  function applyQuick() {
+    if (!quick) return;
+    setForm(f => ({ ...f, description: quick.description, stake: quick.stake, odds: quick.odds, sport: quick.sport, market: quick.market || undefined }));
+    setQuickEdits(null);
+  }
+
+  // -------- Paste slip --------
+  const [pastingSlip, setPastingSlip] = useState(false);
+
+  function addSlipBets(added: Bet[]) {
+    history.change(list => [...added, ...list]);
+  }
+
+  // -------- Quick entry rules --------
+  const rules = quickRules(state);
+  const [ruleDraft, setRuleDraft] = useState<{ keyword: string; sport: Sport; market: string }>({ keyword: '', sport: 'Football', market: '' });
+
+  function setQuickRules(next: QuickRule[] | undefined) {
+    setState(s => ({ ...s, quickRules: next }));
+  }
+
+  function addRule() {
+    const keyword = ruleDraft.keyword.trim();
+    if (!keyword || rules.some(r => r.keyword.toLowerCase() === keyword.toLowerCase())) return;
+    setQuickRules([...rules, { id: uid(), keyword, sport: ruleDraft.sport, market: ruleDraft.market || undefined }]);
+    setRuleDraft(d => ({ ...d, keyword: '' }));
+  }
+
+  function updateRule(id: string, patch: Partial<QuickRule>) {
+    setQuickRules(rules.map(r => (r.id === id ? { ...r, ...patch } : r)));
+  }
+
+  // Earlier rules win, so the order matters
+  function moveRule(id: string, by: -1 | 1) {
+    const i = rules.findIndex(r => r.id === id);
+    const j = i + by;
+    if (i < 0 || j < 0 || j >= rules.length) return;
+    const next = rules.slice();
+    [next[i], next[j]] = [next[j], next[i]];
+    setQuickRules(next);
+  }
+
+  // Turning a single into a multiple keeps what was typed as the first leg
+  function addLeg() {
+    setForm(f => {
+      const blank = (): LegDraft => ({ id: uid(), description: '', sport: f.sport, market: f.market, odds: '', status: 'Pending' });
+      if (f.legs) return { ...f, legs: [...f.legs, blank()] };
+      const first: LegDraft = { id: uid(), description: f.description, sport: f.sport, market: f.market, odds: f.odds, status: f.status === 'Won' || f.status === 'Lost' || f.status === 'Void' ? f.status : 'Pending' };
+      return { ...f, description: '', legs: [first, blank()] };
+    });
+  }
+
+  function updateLeg(id: string, patch: Partial<LegDraft>) {
+    setForm(f => ({ ...f, legs: f.legs?.map(l => (l.id === id ? { ...l, ...patch } : l)) }));
+  }
+
+  function removeLeg(id: string) {
+    setForm(f => {
+      const legs = (f.legs ?? []).filter(l => l.id !== id);
+      if (legs.length > 1) return { ...f, legs };
+      const [only] = legs;
+      return only
+        ? { ...f, legs: undefined, description: only.description, sport: only.sport, market: only.market, odds: only.odds, status: only.status }
+        : { ...f, legs: undefined };
+    });
+  }
 
   function addBet() {
     if (addDisabled) return;
     const now = new Date().toISOString();
-    const bet: Bet = {
+    const single: Bet = {
       id: uid(),
       date: form.date,
       description: form.description.trim(),
       sport: form.sport,
-      category: form.sport === 'Football' ? form.category : undefined,
+      market: form.market || undefined,
+      tags: parseTags(form.tags ?? '').length ? parseTags(form.tags ?? '') : undefined,
+      // A multiple's legs are separate events
+      ...(form.legs ? {} : eventFields(form)),
       stake: +parseNum(form.stake).toFixed(2),
-      oddsDecimal: +parseNum(form.oddsDecimal).toFixed(3),
+      currency: formCurrency,
+      oddsDecimal: parseOdds(form.odds) ?? 0,
       status: form.status,
       returnOverride: form.returnOverride !== undefined && form.returnOverride !== '' ? +parseNum(form.returnOverride).toFixed(2) : undefined,
+      eachWay: form.eachWay && !form.legs ? { placeFraction: parseNum(form.eachWay.placeFraction, 0.2), places: Math.max(1, Math.round(parseNum(form.eachWay.places, 3))) } : undefined,
       settledAt: isSettled(form.status) ? now : undefined,
+      parentId: form.parentId,
+      chainId: form.chainId,
+      runId: form.runId,
+      accountId: form.accountId,
+      stakeType: formCash ? undefined : form.stakeType,
+      promotionId: form.promotionId,
+      probability: plan?.kind === 'kelly' ? formProbability : undefined,
       createdAt: now,
       updatedAt: now,
     };
-    setBets(b => [bet, ...b]);
-    setForm(f => ({ ...f, description: '', stake: f.stake, oddsDecimal: f.oddsDecimal, status: 'Pending' }));
+    const bet = formLegs
+      ? applyLegs({ ...single, description: single.description || formLegs.map(l => l.description).join(' / '), status: 'Pending', settledAt: undefined }, formLegs, now)
+      : single;
+    if (bet.status === 'Pending') bet.returnOverride = undefined;
+    // The first roll also tags the parent so the whole chain shares one id
+    history.change(b => [bet, ...b.map(x => (x.id === form.parentId && !x.chainId ? { ...x, chainId: form.chainId, updatedAt: now } : x))]);
+    setForm(f => ({ ...f, description: '', stake: f.stake, odds: f.odds, status: 'Pending', home: undefined, away: undefined, kickoff: undefined, probability: undefined, stakeType: undefined, promotionId: undefined, legs: undefined, parentId: undefined, chainId: undefined, runId: undefined }));
+  }
+
+  // Pre-fill the add form with a won bet's return as the next stake
+  function rollForward(bet: Bet) {
+    const ret = effectiveReturn(bet);
+    if (!isBetSettled(bet) || ret === null || ret <= 0) return;
+    setForm(f => ({
+      ...f,
+      date: toISODateInput(),
+      description: '',
+      sport: bet.sport,
+      market: bet.market,
+      tags: bet.tags?.join(', '),
+      stake: ret.toFixed(2),
+      currency: betCurrency(bet),
+      status: 'Pending',
+      returnOverride: undefined,
+      parentId: bet.id,
+      chainId: bet.chainId ?? bet.id,
+      runId: bet.runId,
+      accountId: bet.accountId,
+      // A rolled return is cash whatever funded the bet before
+      stakeType: undefined,
+      promotionId: undefined,
+    }));
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  }
+
+  function cancelRoll() {
+    setForm(f => ({ ...f, parentId: undefined, chainId: undefined, runId: undefined }));
+  }
+
+  const rollingFrom = form.parentId ? bets.find(b => b.id === form.parentId) ?? null : null;
+  const rolledIds = useMemo(() => new Set(bets.map(b => b.parentId).filter((id): id is string => !!id)), [bets]);
+
+  // -------- Roller chains --------
+  const chains = useMemo(() => {
+    const groups = new Map<string, Bet[]>();
+    for (const b of bets) {
+      if (!b.chainId) continue;
+      const cur = groups.get(b.chainId) ?? [];
+      cur.push(b);
+      groups.set(b.chainId, cur);
+    }
+    return Array.from(groups.entries()).map(([chainId, list]) => {
+      // Each roll is created after its parent, so creation order is step order
+      const ordered = list.slice().sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+      let combined = 1;
+      const steps = ordered.map((b, i) => {
+        combined *= b.oddsDecimal;
+        return { step: i + 1, bet: b, combinedOdds: +combined.toFixed(3), ret: effectiveReturn(b) };
+      });
+      const last = ordered[ordered.length - 1];
+      const status: ChainStatus = ordered.some(b => b.status === 'Lost' && !effectiveReturn(b)) ? 'Bust' : !isBetSettled(last) ? 'Running' : 'Banked';
+      const startStake = ordered[0].stake;
+      // Rolling keeps the currency, so the whole chain is in the first step's
+      const currency = betCurrency(ordered[0]);
+      const finalReturn = status === 'Bust' ? 0 : status === 'Banked' ? effectiveReturn(last) ?? 0 : +(remainingStake(last) * last.oddsDecimal).toFixed(2);
+      return { chainId, steps, status, startStake, currency, finalReturn, combinedOdds: +combined.toFixed(3), lastDate: last.date };
+    }).sort((a, b) => b.lastDate.localeCompare(a.lastDate));
+  }, [bets]);
+
+  const chainStepById = useMemo(() => {
+    const m = new Map<string, number>();
+    for (const c of chains) for (const s of c.steps) m.set(s.bet.id, s.step);
+    return m;
+  }, [chains]);
+
+  const [openChainId, setOpenChainId] = useState<string | null>(null);
+
+  // -------- Challenge runs --------
+  const activeRun = useMemo(() => {
+    for (const run of state.runs ?? []) {
+      const steps = bets.filter(b => b.runId === run.id).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+      if (runOutcome(run, steps) === 'Running') return { run, steps, last: steps[steps.length - 1] as Bet | undefined };
+    }
+    return null;
+  }, [bets, state.runs]);
+
+  function startRun() {
+    const startStake = state.startingBankroll ?? 0;
+    if (activeRun || startStake <= 0) return;
+    const run: ChallengeRun = { id: uid(), startedAt: new Date().toISOString(), startStake, target: state.targetProfit };
+    setState(s => ({ ...s, runs: [...(s.runs ?? []), run] }));
+    setForm(f => ({ ...f, description: '', stake: startStake.toFixed(2), currency: undefined, status: 'Pending', returnOverride: undefined, parentId: undefined, chainId: undefined, runId: run.id }));
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  }
+
+  // Every step after the first rolls the previous return forward
+  function nextRunStep() {
+    if (!activeRun) return;
+    if (activeRun.last) {
+      rollForward(activeRun.last);
+      return;
+    }
+    setForm(f => ({ ...f, description: '', stake: activeRun.run.startStake.toFixed(2), currency: undefined, status: 'Pending', returnOverride: undefined, parentId: undefined, chainId: undefined, runId: activeRun.run.id }));
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  }
+
+  function abandonRun() {
+    if (!activeRun) return;
+    const id = activeRun.run.id;
+    setState(s => ({ ...s, runs: (s.runs ?? []).map(r => (r.id === id ? { ...r, abandonedAt: new Date().toISOString() } : r)) }));
+    if (form.runId === id) cancelRoll();
+  }
+
+  // -------- Bookmaker accounts --------
+  const [openAccountId, setOpenAccountId] = useState<string | null>(null);
+  const [accountDraft, setAccountDraft] = useState<{ name: string; currency?: CurrencyCode }>({ name: '' });
+  const [txDraft, setTxDraft] = useState<{ accountId?: string; date: string; kind: TransactionKind; amount: string; note: string }>({
+    date: toISODateInput(), kind: 'Deposit', amount: '', note: '',
+  });
+  const txAccount = accounts.find(a => a.id === txDraft.accountId) ?? accounts[0] ?? null;
+  const txValid = !!txAccount && !!txDraft.date && parseNum(txDraft.amount) > 0;
+  const unassignedCount = accounts.length ? bets.filter(b => !b.accountId).length : 0;
+
+  function addAccount() {
+    const name = accountDraft.name.trim();
+    if (!name) return;
+    const account: BookmakerAccount = { id: uid(), name, currency: accountDraft.currency ?? base, transactions: [] };
+    setState(s => ({ ...s, accounts: [...(s.accounts ?? []), account] }));
+    setAccountDraft({ name: '' });
+    setTxDraft(d => ({ ...d, accountId: account.id }));
+  }
+
+  function removeAccount(id: string) {
+    if (bets.some(b => b.accountId === id)) return;
+    setState(s => ({ ...s, accounts: (s.accounts ?? []).filter(a => a.id !== id) }));
+    setForm(f => (f.accountId === id ? { ...f, accountId: undefined } : f));
+  }
+
+  function addTransaction() {
+    if (!txValid || !txAccount) return;
+    const tx: AccountTransaction = { id: uid(), date: txDraft.date, kind: txDraft.kind, amount: +parseNum(txDraft.amount).toFixed(2), note: txDraft.note.trim() || undefined };
+    setState(s => ({ ...s, accounts: (s.accounts ?? []).map(a => (a.id === txAccount.id ? { ...a, transactions: [...a.transactions, tx] } : a)) }));
+    setTxDraft(d => ({ ...d, amount: '', note: '' }));
+  }
+
+  function removeTransaction(accountId: string, txId: string) {
+    setState(s => ({ ...s, accounts: (s.accounts ?? []).map(a => (a.id === accountId ? { ...a, transactions: a.transactions.filter(t => t.id !== txId) } : a)) }));
+  }
+
+  // -------- Promotions --------
+  const promotions = useMemo(() => state.promotions ?? [], [state.promotions]);
+  const [promoDraft, setPromoDraft] = useState<{ name: string; accountId?: string }>({ name: '' });
+
+  function addPromotion() {
+    const name = promoDraft.name.trim();
+    if (!name) return;
+    const promo: Promotion = { id: uid(), name, accountId: promoDraft.accountId };
+    setState(s => ({ ...s, promotions: [...(s.promotions ?? []), promo] }));
+    setPromoDraft(d => ({ ...d, name: '' }));
+  }
+
+  function removePromotion(id: string) {
+    if (bets.some(b => b.promotionId === id)) return;
+    setState(s => ({ ...s, promotions: (s.promotions ?? []).filter(p => p.id !== id) }));
+  }
+
+  // -------- Sports and markets --------
+  const sports = sportDefs(state);
+  const [sportDraft, setSportDraft] = useState('');
+  const [marketDrafts, setMarketDrafts] = useState<Record<Sport, string>>({});
+
+  function setSports(next: SportDef[]) {
+    setState(s => ({ ...s, sports: next }));
+  }
+
+  // Counts legs as well, a multiple can hold a sport none of its parents show
+  function sportUses(sport: Sport, market?: string) {
+    const hit = (x: { sport: Sport; market?: string }) => x.sport === sport && (market === undefined || x.market === market);
+    return bets.filter(b => hit(b) || b.legs?.some(hit)).length;
+  }
+
+  function addSport() {
+    const name = sportDraft.trim();
+    if (!name || sports.some(d => d.name.toLowerCase() === name.toLowerCase())) return;
+    setSports([...sports, { name, markets: [] }]);
+    setSportDraft('');
+  }
+
+  function removeSport(name: Sport) {
+    if (sportUses(name) > 0) return;
+    setSports(sports.filter(d => d.name !== name));
+  }
+
+  function addMarket(sport: Sport) {
+    const market = (marketDrafts[sport] ?? '').trim();
+    const def = sports.find(d => d.name === sport);
+    if (!market || !def || def.markets.some(m => m.toLowerCase() === market.toLowerCase())) return;
+    setSports(sports.map(d => (d.name === sport ? { ...d, markets: [...d.markets, market] } : d)));
+    setMarketDrafts(m => ({ ...m, [sport]: '' }));
+  }
+
+  function removeMarket(sport: Sport, market: string) {
+    if (sportUses(sport, market) > 0) return;
+    setSports(sports.map(d => (d.name === sport ? { ...d, markets: d.markets.filter(m => m !== market) } : d)));
+  }
+
+  // -------- Exchange rates --------
+  const [rateDraft, setRateDraft] = useState<{ date: string; from: CurrencyCode; to?: CurrencyCode; rate: string }>({ date: toISODateInput(), from: 'EUR', rate: '' });
+  const rateValid = parseNum(rateDraft.rate) > 0 && !!rateDraft.date && rateDraft.from !== (rateDraft.to ?? base);
+  const missing = useMemo(() => missingRates(bets, state), [bets, state]);
+
+  function addRate() {
+    if (!rateValid) return;
+    const rate: ExchangeRate = { id: uid(), date: rateDraft.date, from: rateDraft.from, to: rateDraft.to ?? base, rate: parseNum(rateDraft.rate) };
+    setState(s => ({ ...s, rates: [...(s.rates ?? []), rate] }));
+    setRateDraft(d => ({ ...d, rate: '' }));
+  }
+
+  function updateRate(id: string, raw: string) {
+    const rate = parseNum(raw);
+    if (rate <= 0) return;
+    setState(s => ({ ...s, rates: (s.rates ?? []).map(r => (r.id === id ? { ...r, rate } : r)) }));
+  }
+
+  function removeRate(id: string) {
+    setState(s => ({ ...s, rates: (s.rates ?? []).filter(r => r.id !== id) }));
   }
 
   // -------- Filters --------
@@ -227,8 +689,8 @@ export default function RollerBetsTracker() {
     const qsTo = searchParams.get('to');
 
     const next: { sport: Sport | 'All'; status: BetStatus | 'All'; from?: string; to?: string } = {
-      sport: (qsSport === 'Football' || qsSport === 'Cricket' || qsSport === 'Tennis' || qsSport === 'Other') ? qsSport : (qsSport === 'All' ? 'All' : filter.sport),
-      status: (qsStatus === 'Pending' || qsStatus === 'Won' || qsStatus === 'Lost' || qsStatus === 'All') ? qsStatus as BetStatus | 'All' : filter.status,
+      sport: qsSport ? qsSport : filter.sport,
+      status: (qsStatus === 'All' || BET_STATUSES.includes(qsStatus as BetStatus)) ? qsStatus as BetStatus | 'All' : filter.status,
       from: qsFrom || undefined,
       to: qsTo || undefined,
     };
@@ -250,95 +712,264 @@ export default function RollerBetsTracker() {
     router.replace(url);
   }, [filter, isClient, router, pathname, searchParams]);
 
-  const filteredBets = bets.filter(b => {
+  const filteredBets = useMemo(() => bets.filter(b => {
     if (filter.sport !== 'All' && b.sport !== filter.sport) return false;
     if (filter.status !== 'All' && b.status !== filter.status) return false;
     if (filter.from && b.date < filter.from) return false;
     if (filter.to && b.date > filter.to) return false;
     return true;
-  }).sort((a, b) => b.date.localeCompare(a.date));
-
-  const footballCategoryStats = useMemo(() => {
-    const fb = filteredBets.filter(b => b.sport === 'Football');
-    type Stat = { bets: number; settled: number; stakedSettled: number; returned: number; wins: number };
-    const map = new Map<FootballCategoryKey, Stat>();
-    for (const b of fb) {
-      const key = (b.category ?? 'Uncategorised') as FootballCategoryKey;
-      const cur = map.get(key) ?? { bets: 0, settled: 0, stakedSettled: 0, returned: 0, wins: 0 };
-      cur.bets += 1;
-      if (isSettled(b.status)) {
-        cur.settled += 1;
-        cur.stakedSettled += b.stake;
-        cur.returned += effectiveReturn(b) ?? 0;
-        if (b.status === 'Won') cur.wins += 1;
-      }
-      map.set(key, cur);
+  }).sort(byKickoffThenDate), [bets, filter]);
+  // Render time is close enough for flagging pending bets whose event has started
+  const nowLocal = toLocalDateTime();
+
+  // Cash bets only, promo stakes would flatter the ROI. The intervals resample every bet, so both steps are memoized.
+  const [dimension, setDimension] = useState<Dimension>('sport');
+  const cashBets = useMemo(() => filteredBets.filter(isCashStake).map(b => inBaseCurrency(b, state)), [filteredBets, state]);
+  const groupStats = useMemo(() => breakdown(cashBets, dimension), [cashBets, dimension]);
+
+  // -------- Profiles --------
+  const currentProfile = profiles.profiles.find(p => p.id === profileId) ?? DEFAULT_PROFILE;
+  const otherProfiles = profiles.profiles.filter(p => p.id !== profileId);
+  const [profileName, setProfileName] = useState(currentProfile.name);
+  const [transferTo, setTransferTo] = useState('');
+  const [profileError, setProfileError] = useState<string | null>(null);
+
+  function flash(message: string) {
+    setToast(message);
+    window.setTimeout(() => setToast(null), 2000);
+  }
+
+  // A move only takes the bets out here once the other profile has them
+  async function transferBets(list: Bet[], to: string, mode: 'copy' | 'move') {
+    const target = otherProfiles.find(p => p.id === to);
+    if (!target || !list.length) return;
+    try {
+      await addBets(to, transferredBets(list, mode, uid));
+    } catch {
+      flash(`Could not ${mode} to ${target.name}`);
+      return;
+    }
+    if (mode === 'move') {
+      const ids = new Set(list.map(b => b.id));
+      history.change(l => l.filter(b => !ids.has(b.id)));
     }
-    const rows = Array.from(map.entries()).map(([category, m]) => {
-      const profit = +(m.returned - m.stakedSettled).toFixed(2);
-      const roi = m.stakedSettled > 0 ? profit / m.stakedSettled : 0;
-      const winRate = m.settled > 0 ? m.wins / m.settled : 0;
-      return { category, bets: m.bets, settled: m.settled, staked: +m.stakedSettled.toFixed(2), returned: +m.returned.toFixed(2), profit, roi, winRate };
-    }).sort((a, b) => b.profit - a.profit);
-    return rows;
-  }, [filteredBets]);
+    flash(`${mode === 'copy' ? 'Copied' : 'Moved'} ${list.length} bet${list.length === 1 ? '' : 's'} to ${target.name}`);
+  }
+
+  async function removeProfile(id: string) {
+    setProfileError(await profiles.remove(id));
+  }
 
   // -------- Editing --------
   const [editingId, setEditingId] = useState<string | null>(null);
-  const [editVals, setEditVals] = useState<{ stake: string; oddsDecimal: string; status: BetStatus; category?: FootballCategory; returnOverride?: string }>({ stake: '', oddsDecimal: '', status: 'Pending' });
+  const [editVals, setEditVals] = useState<{ stake: string; stakeType: StakeType; currency: CurrencyCode; accountId?: string; odds: string; closingOdds: string; status: BetStatus; sport: Sport; market?: string; tags: string; competition: string; home: string; away: string; kickoff: string; returnOverride?: string }>({ stake: '', stakeType: 'Cash', currency: 'GBP', odds: '', closingOdds: '', status: 'Pending', sport: 'Football', tags: '', competition: '', home: '', away: '', kickoff: '' });
+
+  // Odds as first shown in the form. Formatting rounds them, so unless the text is changed the stored price is kept.
+  const [editShown, setEditShown] = useState({ odds: '', closingOdds: '' });
+
+  // Another tab saving the bet being edited. Saving here still applies these values on top of theirs.
+  const [editClash, setEditClash] = useState<{ description: string; deleted: boolean } | null>(null);
+  useTabSync({
+    ready: isClient, profileId, setBets, setState,
+    onBetsChanged: (put, remove) => {
+      if (!editingId) return;
+      const theirs = put.find(b => b.id === editingId);
+      if (remove.includes(editingId)) {
+        setEditClash({ description: bets.find(b => b.id === editingId)?.description ?? 'The bet', deleted: true });
+        setEditingId(null);
+      } else if (theirs) {
+        setEditClash({ description: theirs.description, deleted: false });
+      }
+    },
+  });
 
   function beginEdit(bet: Bet) {
+    setEditClash(null);
     setEditingId(bet.id);
-    setEditVals({ stake: String(bet.stake), oddsDecimal: String(bet.oddsDecimal), status: bet.status, category: bet.category, returnOverride: bet.returnOverride !== undefined ? String(bet.returnOverride) : undefined });
+    const shown = { odds: fmtOdds(bet.oddsDecimal), closingOdds: bet.closingOdds ? fmtOdds(bet.closingOdds) : '' };
+    setEditShown(shown);
+    setEditVals({ ...shown, stake: String(bet.stake), stakeType: bet.stakeType ?? 'Cash', currency: betCurrency(bet), accountId: bet.accountId, status: bet.status, sport: bet.sport, market: bet.market, tags: (bet.tags ?? []).join(', '), competition: bet.competition ?? '', home: bet.home ?? '', away: bet.away ?? '', kickoff: bet.kickoff ?? '', returnOverride: bet.returnOverride !== undefined ? String(bet.returnOverride) : undefined });
   }
 
   function saveEdit(id: string) {
-    setBets(list => list.map(b => {
+    history.change(list => list.map(b => {
       if (b.id !== id) return b;
       const now = new Date().toISOString();
-      const nextStatus = editVals.status;
+      // A multiple's odds and status always come from its legs
+      const nextStatus = b.legs ? b.status : editVals.status;
+      const closing = editVals.closingOdds === editShown.closingOdds ? b.closingOdds : parseOdds(editVals.closingOdds) ?? undefined;
       return {
         ...b,
         stake: +parseNum(editVals.stake).toFixed(2),
-        oddsDecimal: +parseNum(editVals.oddsDecimal).toFixed(3),
+        currency: editVals.currency,
+        accountId: editVals.accountId,
+        stakeType: editVals.stakeType === 'Cash' ? undefined : editVals.stakeType,
+        oddsDecimal: b.legs || editVals.odds === editShown.odds ? b.oddsDecimal : parseOdds(editVals.odds) ?? b.oddsDecimal,
+        closingOdds: (closing ?? 0) > 1 ? closing : undefined,
         status: nextStatus,
-        category: b.sport === 'Football' ? editVals.category : undefined,
+        // A multiple's sport and market come from its legs too
+        sport: b.legs ? b.sport : editVals.sport,
+        market: b.legs ? b.market : editVals.market || undefined,
+        tags: parseTags(editVals.tags).length ? parseTags(editVals.tags) : undefined,
+        ...(b.legs ? {} : eventFields(editVals)),
         returnOverride: editVals.returnOverride !== undefined && editVals.returnOverride !== '' ? +parseNum(editVals.returnOverride).toFixed(2) : undefined,
-        settledAt: isSettled(b.status) || isSettled(nextStatus) ? now : undefined,
+        // Only a change of result moves settledAt, editing anything else keeps it
+        settledAt: nextStatus === b.status ? b.settledAt : isSettled(nextStatus) ? now : undefined,
         updatedAt: now,
       };
     }));
     setEditingId(null);
+    setEditClash(null);
+  }
+
+  // Settling a leg re-derives the whole multiple
+  function setLegStatus(betId: string, legId: string, status: LegStatus) {
+    const now = new Date().toISOString();
+    history.change(list => list.map(b => (b.id === betId && b.legs ? applyLegs(b, b.legs.map(l => (l.id === legId ? { ...l, status } : l)), now) : b)));
+  }
+
+  // -------- Cash outs --------
+  const [cashOutDraft, setCashOutDraft] = useState<{ betId: string; amount: string; stake: string } | null>(null);
+
+  function beginCashOut(bet: Bet) {
+    setCashOutDraft({ betId: bet.id, amount: '', stake: String(remainingStake(bet)) });
+  }
+
+  const cashOutBet = cashOutDraft ? bets.find(b => b.id === cashOutDraft.betId) ?? null : null;
+  const cashOutValid = !!cashOutDraft && !!cashOutBet
+    && cashOutDraft.amount.trim() !== '' && parseNum(cashOutDraft.amount, -1) >= 0
+    && parseNum(cashOutDraft.stake) > 0 && parseNum(cashOutDraft.stake) <= remainingStake(cashOutBet) + 0.005;
+
+  function saveCashOut() {
+    if (!cashOutDraft || !cashOutValid) return;
+    const now = new Date().toISOString();
+    const entry = { id: uid(), at: now, amount: +parseNum(cashOutDraft.amount).toFixed(2), stake: +parseNum(cashOutDraft.stake).toFixed(2) };
+    history.change(list => list.map(b => {
+      if (b.id !== cashOutDraft.betId) return b;
+      const next: Bet = { ...b, cashOuts: [...(b.cashOuts ?? []), entry], updatedAt: now };
+      return isBetSettled(next) && !b.settledAt ? { ...next, settledAt: now } : next;
+    }));
+    setCashOutDraft(null);
+  }
+
+  function removeCashOut(betId: string, cashOutId: string) {
+    const now = new Date().toISOString();
+    history.change(list => list.map(b => {
+      if (b.id !== betId || !b.cashOuts) return b;
+      const cashOuts = b.cashOuts.filter(c => c.id !== cashOutId);
+      const next: Bet = { ...b, cashOuts: cashOuts.length ? cashOuts : undefined, updatedAt: now };
+      return isBetSettled(next) ? next : { ...next, settledAt: undefined };
+    }));
+  }
+
+  // The toast offers undo while the delete is still the last step, Ctrl+Z reaches it after that too
+  const [deleted, setDeleted] = useState<{ step: string; count: number } | null>(null);
+  const deleteTimer = useRef<number | null>(null);
+
+  function deleteBets(ids: Set<string>) {
+    const step = history.change(list => list.filter(b => !ids.has(b.id)));
+    setDeleted(step ? { step, count: ids.size } : null);
+    if (deleteTimer.current) window.clearTimeout(deleteTimer.current);
+    deleteTimer.current = window.setTimeout(() => setDeleted(null), 10000);
   }
 
   function deleteBet(id: string) {
-    const toDelete = bets.find(b => b.id === id) || null;
-    setBets(list => list.filter(b => b.id !== id));
-    setLastDeleted(toDelete);
-    if (undoTimer.current && isClient) window.clearTimeout(undoTimer.current);
-    if (isClient) {
-      undoTimer.current = window.setTimeout(() => setLastDeleted(null), 10000);
-    }
+    deleteBets(new Set([id]));
+  }
+
+  // -------- History panel --------
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [historyEvents, setHistoryEvents] = useState<BetEvent[]>([]);
+  const historyBet = historyId ? bets.find(b => b.id === historyId) : undefined;
+
+  // Read again whenever the bet changes, the event is written just before
+  useEffect(() => {
+    if (!historyId) return;
+    let current = true;
+    readBetEvents(profileId, historyId).then(events => { if (current) setHistoryEvents(events); });
+    return () => { current = false; };
+  }, [profileId, historyId, historyBet?.updatedAt]);
+
+  // -------- Selection and batch actions --------
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  // Actions only touch the selected rows the filter shows, the hidden ones stay selected for when it changes back
+  const selectedBets = filteredBets.filter(b => selected.has(b.id));
+  const hiddenSelected = bets.filter(b => selected.has(b.id)).length - selectedBets.length;
+  const allFilteredSelected = filteredBets.length > 0 && filteredBets.every(b => selected.has(b.id));
+  const [batch, setBatch] = useState<{ sport?: Sport; market?: string; tag: string; date: string }>({ tag: '', date: toISODateInput() });
+  const batchSport = batch.sport ?? sportOptions[0];
+
+  function toggleSelected(id: string) {
+    setSelected(s => {
+      const next = new Set(s);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
+  function selectFiltered(on: boolean) {
+    setSelected(on ? new Set(filteredBets.map(b => b.id)) : new Set());
+  }
+
+  // One history step per action, so a single undo reverts the whole batch
+  function updateSelected(update: (b: Bet, now: string) => Bet) {
+    const now = new Date().toISOString();
+    const ids = new Set(selectedBets.map(b => b.id));
+    history.change(list => list.map(b => (ids.has(b.id) ? update(b, now) : b)));
+  }
+
+  // Multiples take their status, sport and market from the legs, so those actions pass them by
+  function settleSelected(status: 'Won' | 'Lost') {
+    updateSelected((b, now) => (b.legs || b.status === status ? b : { ...b, status, settledAt: now, updatedAt: now }));
+  }
+
+  function setSelectedSport() {
+    updateSelected((b, now) => (b.legs ? b : { ...b, sport: batchSport, market: batch.market, updatedAt: now }));
+  }
+
+  function tagSelected() {
+    const tags = parseTags(batch.tag);
+    if (!tags.length) return;
+    updateSelected((b, now) => {
+      const next = Array.from(new Set([...(b.tags ?? []), ...tags]));
+      return next.length === (b.tags?.length ?? 0) ? b : { ...b, tags: next, updatedAt: now };
+    });
+    setBatch(v => ({ ...v, tag: '' }));
+  }
+
+  function moveSelected() {
+    if (!batch.date) return;
+    updateSelected((b, now) => (b.date === batch.date ? b : { ...b, date: batch.date, updatedAt: now }));
+  }
+
+  function deleteSelected() {
+    const ids = new Set(selectedBets.map(b => b.id));
+    deleteBets(ids);
+    setSelected(s => new Set([...s].filter(id => !ids.has(id))));
   }
 
-  function undoDelete() {
-    if (!lastDeleted) return;
-    setBets(list => [lastDeleted, ...list]);
-    setLastDeleted(null);
-    if (undoTimer.current && isClient) window.clearTimeout(undoTimer.current);
+  function showChange(bet: Bet, c: FieldChange) {
+    const show = (v: unknown) => {
+      if (v === undefined || v === null) return 'none';
+      if (c.field === 'stake' || c.field === 'returnOverride') return money(Number(v), betCurrency(bet));
+      if (c.field === 'oddsDecimal' || c.field === 'closingOdds') return fmtOdds(Number(v));
+      return String(v);
+    };
+    return `${HISTORY_FIELD_LABEL[c.field]} ${show(c.from)} → ${show(c.to)}`;
   }
 
   function copySummary() {
     const lines = [
       'Roller Bets summary',
-      `Total staked: ${currency.format(totals.totalStaked)}`,
-      `Total returned: ${currency.format(totals.totalReturned)}`,
-      `Profit: ${currency.format(totals.profit)}`,
+      `Total staked: ${money(totals.totalStaked)}`,
+      `Total returned: ${money(totals.totalReturned)}`,
+      `Profit: ${money(totals.profit)}`,
       `Win rate: ${percentFmt.format(totals.winRate)}`,
-      `Goal progress: ${percentFmt.format(totals.progress)} (${currency.format(totals.totalReturned)} of ${currency.format(state.targetProfit)})`,
+      `Goal progress: ${percentFmt.format(totals.progress)} (${money(totals.totalReturned)} of ${money(state.targetProfit)})`,
       '',
       'Recent bets:',
-      ...bets.slice(0, 3).map(b => `${b.date} ${b.description} ${b.sport} Stake ${currency.format(b.stake)} Odds ${b.oddsDecimal.toFixed(2)} Status ${b.status} Return ${effectiveReturn(b) == null ? 'N/A' : currency.format(effectiveReturn(b) as number)}`),
+      ...bets.slice(0, 3).map(b => `${b.date} ${b.description} ${b.sport} Stake ${money(b.stake, betCurrency(b))} Odds ${fmtOdds(b.oddsDecimal)} Status ${b.status} Return ${effectiveReturn(b) == null ? 'N/A' : money(effectiveReturn(b) as number, betCurrency(b))}`),
     ];
     const text = lines.join('\n');
     if (navigator.clipboard && navigator.clipboard.writeText) {
@@ -374,13 +1005,17 @@ export default function RollerBetsTracker() {
           </div>
         ) : (
           <div className="max-w-6xl mx-auto px-4 py-6 space-y-6">
+            <StorageBanner issues={[...storageIssues, ...sync.serverIssues]} onDismiss={() => { setStorageIssues([]); sync.dismissServerIssues(); }} />
+            <SyncBanner status={sync.status} conflicts={sync.conflicts} onKeepMine={sync.keepMine} onKeepTheirs={sync.keepTheirs} onRetry={sync.retry} />
+
             {/* Header */}
             <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3">
               <div>
                 <h1 className="text-xl sm:text-2xl font-semibold tracking-tight">Roller Bets Tracker</h1>
-                <p className="text-xs sm:text-sm opacity-70">Local only, fast entry, clean stats.</p>
+                <p className="text-xs sm:text-sm opacity-70">{STORAGE_MODE === 'local' ? 'Local only' : 'Synced to your server'}, fast entry, clean stats.</p>
               </div>
               <div className="flex items-center gap-2 w-full sm:w-auto">
+                <ProfileSwitcher profiles={profiles.profiles} activeId={profileId} onSwitch={profiles.switchTo} onCreate={profiles.create} />
                 <div className="flex-1 sm:flex-none inline-flex rounded-xl border border-slate-700 overflow-hidden">
                   {(['All', 'Pending', 'Won', 'Lost']).map((s) => (
                     <button
@@ -393,116 +1028,883 @@ export default function RollerBetsTracker() {
                     </button>
                   ))}
                 </div>
+                <select
+                  className="rounded-xl px-2 py-2 text-xs sm:text-sm bg-slate-800/60 border border-slate-700"
+                  value={oddsFormat}
+                  onChange={e => setState(s => ({ ...s, oddsFormat: e.target.value as OddsFormat }))}
+                  title="Odds format"
+                >
+                  {ODDS_FORMATS.map(f => <option key={f} value={f}>{ODDS_FORMAT_LABEL[f]}</option>)}
+                </select>
                 <Link href="/insights" className={btnGhost + ' text-xs sm:text-sm'}>
                   Insights
                 </Link>
+                <button className={btnGhost + ' text-xs sm:text-sm'} type="button" disabled={!history.canUndo} onClick={history.undo} title="Undo (Ctrl+Z)">Undo</button>
+                <button className={btnGhost + ' text-xs sm:text-sm'} type="button" disabled={!history.canRedo} onClick={history.redo} title="Redo (Ctrl+Shift+Z)">Redo</button>
                 <button className={btnGhost + ' text-xs sm:text-sm'} type="button" onClick={copySummary}>Copy</button>
               </div>
             </div>
 
             {/* Add form, mobile first on top */}
             <div className={card}>
+              {(rollingFrom || form.runId) && (
+                <div className="flex items-center justify-between gap-3 mb-3 text-xs sm:text-sm rounded-xl border border-indigo-500/40 bg-indigo-500/10 px-3 py-2">
+                  <span>
+                    {rollingFrom
+                      ? <>Rolling {money(effectiveReturn(rollingFrom) ?? 0, betCurrency(rollingFrom))} from &ldquo;{rollingFrom.description}&rdquo;</>
+                      : 'First step of the challenge run'}
+                    {form.runId && rollingFrom ? ' (challenge run)' : ''}
+                  </span>
+                  <button className={btnGhost + ' text-xs'} type="button" onClick={cancelRoll}>Cancel roll</button>
+                </div>
+              )}
               <div className="grid grid-cols-2 md:grid-cols-12 gap-3 items-end">
                 <div className="col-span-2 md:col-span-2">
                   <label className="text-xs opacity-80">Date</label>
                   <input className={input} type="date" value={form.date} onChange={e => setForm(f => ({ ...f, date: e.target.value }))} />
                 </div>
                 <div className="col-span-2 md:col-span-4">
-                  <label className="text-xs opacity-80">Bet</label>
-                  <input className={input} placeholder="Villa race to 9 corners" value={form.description} onChange={e => setForm(f => ({ ...f, description: e.target.value }))} />
+                  <label className="text-xs opacity-80">{form.legs ? `${multipleName(form.legs.length)} name` : 'Bet'}</label>
+                  <input
+                    className={input}
+                    placeholder={form.legs ? 'optional, defaults to the legs' : '£5 Villa race to 9 corners @ 2.1'}
+                    value={form.description}
+                    onChange={e => setForm(f => ({ ...f, description: e.target.value }))}
+                    onKeyDown={e => { if (e.key === 'Enter' && quick) applyQuick(); }}
+                  />
                 </div>
-                <div className="col-span-1 md:col-span-2">
-                  <label className="text-xs opacity-80">Sport</label>
-                  <select className={select} value={form.sport} onChange={e => setForm(f => ({ ...f, sport: e.target.value as Sport }))}>
-                    {(['Football', 'Cricket', 'Tennis', 'Other'] as Sport[]).map(s => <option key={s} value={s}>{s}</option>)}
-                  </select>
-                </div>
-                {form.sport === 'Football' && (
+                {!form.legs && (
+                  <div className="col-span-1 md:col-span-2">
+                    <label className="text-xs opacity-80">Sport</label>
+                    <select className={select} value={form.sport} onChange={e => setForm(f => ({ ...f, sport: e.target.value, market: marketsFor(state, e.target.value)[0] }))}>
+                      {sportOptions.map(s => <option key={s} value={s}>{s}</option>)}
+                    </select>
+                  </div>
+                )}
+                {!form.legs && marketsFor(state, form.sport).length > 0 && (
                   <div className="col-span-1 md:col-span-2">
-                    <label className="text-xs opacity-80">Category</label>
-                    <select className={select} value={form.category ?? 'Result'} onChange={e => setForm(f => ({ ...f, category: e.target.value as FootballCategory }))}>
-                      {(['Result', 'Double Chance', 'Goals', 'Corners', 'Other'] as FootballCategory[]).map(c => <option key={c} value={c}>{c}</option>)}
+                    <label className="text-xs opacity-80">Market</label>
+                    <select className={select} value={form.market ?? ''} onChange={e => setForm(f => ({ ...f, market: e.target.value || undefined }))}>
+                      <option value="">No market</option>
+                      {marketsFor(state, form.sport).map(m => <option key={m} value={m}>{m}</option>)}
                     </select>
                   </div>
                 )}
                 <div className="col-span-1 md:col-span-1">
-                  <label className="text-xs opacity-80">Stake</label>
+                  <label className="text-xs opacity-80">{form.eachWay && !form.legs ? 'Total stake' : 'Stake'}</label>
                   <input className={input} type="number" step="0.01" min="0" value={form.stake} onChange={e => setForm(f => ({ ...f, stake: e.target.value }))} />
                 </div>
                 <div className="col-span-1 md:col-span-1">
                   <label className="text-xs opacity-80">Odds</label>
-                  <input className={input} type="number" step="0.01" min="1.01" value={form.oddsDecimal} onChange={e => setForm(f => ({ ...f, oddsDecimal: e.target.value }))} />
+                  {formLegs ? (
+                    <input className={input} readOnly value={fmtOdds(legsOdds(formLegs))} title="Combined odds of the legs" />
+                  ) : (
+                    <input className={input} inputMode="decimal" placeholder={ODDS_PLACEHOLDER[oddsFormat]} value={form.odds} onChange={e => setForm(f => ({ ...f, odds: e.target.value }))} title={oddsHint(form.odds)} />
+                  )}
                 </div>
                 <div className="col-span-1 md:col-span-2">
                   <label className="text-xs opacity-80">Status</label>
-                  <select className={select} value={form.status} onChange={e => setForm(f => ({ ...f, status: e.target.value as BetStatus }))}>
-                    {(['Pending', 'Won', 'Lost'] as BetStatus[]).map(s => <option key={s} value={s}>{s}</option>)}
-                  </select>
+                  {formLegs ? (
+                    <input className={input} readOnly value={formStatus} title="Settles from the legs" />
+                  ) : (
+                    <select className={select} value={form.status} onChange={e => setForm(f => ({ ...f, status: e.target.value as BetStatus }))}>
+                      {BET_STATUSES.filter(s => s !== 'Placed' || form.eachWay).map(s => <option key={s} value={s}>{s}</option>)}
+                    </select>
+                  )}
                 </div>
 
-                {(form.status === 'Won' || form.status === 'Lost') && (
+                {isSettled(formStatus) && (
                   <div className="col-span-2 md:col-span-2">
-                    <label className="text-xs opacity-80">Return override (£)</label>
+                    <label className="text-xs opacity-80">Return override ({currencySymbol(formCurrency)})</label>
                     <input className={input} type="number" step="0.01" min="0" value={form.returnOverride ?? ''} onChange={e => setForm(f => ({ ...f, returnOverride: e.target.value }))} placeholder="optional" />
                   </div>
                 )}
 
                 <div className="col-span-2 md:col-span-1 flex justify-end">
-                  <button className={btn + ' w-full md:w-auto'} disabled={addDisabled} onClick={addBet}>Add</button>
+                  {quick ? (
+                    <button className={btn + ' w-full md:w-auto'} type="button" onClick={applyQuick} title="Fill in the form from what was typed">Use</button>
+                  ) : (
+                    <button className={btn + ' w-full md:w-auto'} disabled={addDisabled} onClick={addBet}>Add</button>
+                  )}
+                </div>
+              </div>
+
+              {quick && parsed && (
+                <div className="mt-3 rounded-xl border border-indigo-700 bg-indigo-950/30 p-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2 mb-2 text-xs">
+                    <span className="opacity-80">
+                      Read from what you typed{parsed.rule ? `, sport from "${parsed.rule}"` : ''}. Correct anything wrong, then use it to fill in the form.
+                    </span>
+                    <button className="opacity-60 hover:opacity-100" type="button" onClick={() => setQuickDismissed(form.description)}>Keep as typed</button>
+                  </div>
+                  <div className="grid grid-cols-2 md:grid-cols-12 gap-2 items-end">
+                    <div className="col-span-2 md:col-span-4">
+                      <label className="text-xs opacity-80">Bet</label>
+                      <input className={input} value={quick.description} onChange={e => editQuick({ description: e.target.value })} />
+                    </div>
+                    <div className="col-span-1 md:col-span-2">
+                      <label className={'text-xs ' + (parsed.stake !== undefined ? 'text-indigo-300' : 'opacity-60')}>Stake</label>
+                      <input className={input} type="number" step="0.01" min="0" value={quick.stake} onChange={e => editQuick({ stake: e.target.value })} />
+                    </div>
+                    <div className="col-span-1 md:col-span-2">
+                      <label className={'text-xs ' + (parsed.odds !== undefined ? 'text-indigo-300' : 'opacity-60')}>Odds</label>
+                      <input className={input} inputMode="decimal" value={quick.odds} onChange={e => editQuick({ odds: e.target.value })} title={oddsHint(quick.odds)} />
+                    </div>
+                    <div className="col-span-1 md:col-span-2">
+                      <label className={'text-xs ' + (parsed.sport ? 'text-indigo-300' : 'opacity-60')}>Sport</label>
+                      <select className={select} value={quick.sport} onChange={e => editQuick({ sport: e.target.value, market: marketsFor(state, e.target.value)[0] ?? '' })}>
+                        {sportOptions.map(sp => <option key={sp} value={sp}>{sp}</option>)}
+                      </select>
+                    </div>
+                    <div className="col-span-1 md:col-span-2">
+                      <label className={'text-xs ' + (parsed.market ? 'text-indigo-300' : 'opacity-60')}>Market</label>
+                      <select className={select} value={quick.market} onChange={e => editQuick({ market: e.target.value })}>
+                        <option value="">No market</option>
+                        {marketsFor(state, quick.sport).map(m => <option key={m} value={m}>{m}</option>)}
+                      </select>
+                    </div>
+                  </div>
+                </div>
+              )}
+              {form.legs && (
+                <div className="mt-3 space-y-2">
+                  {form.legs.map((leg, i) => (
+                    <div key={leg.id} className="grid grid-cols-2 md:grid-cols-12 gap-2 items-end">
+                      <div className="col-span-2 md:col-span-4">
+                        <label className="text-xs opacity-80">Leg {i + 1}</label>
+                        <input className={input} placeholder="Selection" value={leg.description} onChange={e => updateLeg(leg.id, { description: e.target.value })} />
+                      </div>
+                      <div className="col-span-1 md:col-span-2">
+                        <label className="text-xs opacity-80">Sport</label>
+                        <select className={select} value={leg.sport} onChange={e => updateLeg(leg.id, { sport: e.target.value, market: marketsFor(state, e.target.value)[0] })}>
+                          {sportOptions.map(s => <option key={s} value={s}>{s}</option>)}
+                        </select>
+                      </div>
+                      <div className="col-span-1 md:col-span-2">
+                        <label className="text-xs opacity-80">Market</label>
+                        {marketsFor(state, leg.sport).length > 0 ? (
+                          <select className={select} value={leg.market ?? ''} onChange={e => updateLeg(leg.id, { market: e.target.value || undefined })}>
+                            <option value="">No market</option>
+                            {marketsFor(state, leg.sport).map(m => <option key={m} value={m}>{m}</option>)}
+                          </select>
+                        ) : <input className={input} readOnly value="N/A" />}
+                      </div>
+                      <div className="col-span-1 md:col-span-1">
+                        <label className="text-xs opacity-80">Odds</label>
+                        <input className={input} inputMode="decimal" placeholder={ODDS_PLACEHOLDER[oddsFormat]} value={leg.odds} onChange={e => updateLeg(leg.id, { odds: e.target.value })} title={oddsHint(leg.odds)} />
+                      </div>
+                      <div className="col-span-1 md:col-span-2">
+                        <label className="text-xs opacity-80">Status</label>
+                        <select className={select} value={leg.status} onChange={e => updateLeg(leg.id, { status: e.target.value as LegStatus })}>
+                          {LEG_STATUSES.map(st => <option key={st} value={st}>{st}</option>)}
+                        </select>
+                      </div>
+                      <div className="col-span-2 md:col-span-1 flex justify-end">
+                        <button className={btnGhost} type="button" onClick={() => removeLeg(leg.id)}>Remove</button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {!form.legs && (
+                <div className="mt-3 grid grid-cols-2 md:grid-cols-12 gap-3 items-end">
+                  <div className="col-span-2 md:col-span-3">
+                    <label className="text-xs opacity-80">Competition</label>
+                    <input className={input} list="event-competitions" placeholder="optional" value={form.competition ?? ''} onChange={e => setForm(f => ({ ...f, competition: e.target.value }))} />
+                  </div>
+                  <div className="col-span-1 md:col-span-3">
+                    <label className="text-xs opacity-80">Home or player</label>
+                    <input className={input} list="event-teams" placeholder="optional" value={form.home ?? ''} onChange={e => setForm(f => ({ ...f, home: e.target.value }))} />
+                  </div>
+                  <div className="col-span-1 md:col-span-3">
+                    <label className="text-xs opacity-80">Away or opponent</label>
+                    <input className={input} list="event-teams" placeholder="optional" value={form.away ?? ''} onChange={e => setForm(f => ({ ...f, away: e.target.value }))} />
+                  </div>
+                  <div className="col-span-2 md:col-span-3">
+                    <label className="text-xs opacity-80">Kickoff</label>
+                    <input className={input} type="datetime-local" value={form.kickoff ?? ''} onChange={e => setForm(f => ({ ...f, kickoff: e.target.value }))} />
+                  </div>
                 </div>
+              )}
+              <datalist id="event-competitions">
+                {competitionOptions.map(c => <option key={c} value={c} />)}
+              </datalist>
+              <datalist id="event-teams">
+                {teamOptions.map(t => <option key={t} value={t} />)}
+              </datalist>
+              {plan && (
+                <div className="mt-3 flex flex-wrap items-center justify-end gap-3 text-xs">
+                  {plan.kind === 'kelly' && (
+                    <label className="flex items-center gap-2 opacity-80">
+                      Your chance (%)
+                      <input className={input + ' w-20'} type="number" step="1" min="1" max="99" value={form.probability ?? ''} onChange={e => setForm(f => ({ ...f, probability: e.target.value }))} />
+                    </label>
+                  )}
+                  <span className="opacity-80">
+                    {STAKING_PLAN_LABEL[plan.kind]}:{' '}
+                    {recommended === null
+                      ? (plan.kind === 'kelly' ? 'enter your chance to get a stake' : 'no rung for these odds')
+                      : recommended === 0 ? 'no edge at these odds, skip it' : <>recommends <span className="font-semibold">{money(recommended, formCurrency)}</span></>}
+                  </span>
+                  {recommended !== null && recommended > 0 && (
+                    <button className={btnGhost + ' text-xs'} type="button" onClick={() => setForm(f => ({ ...f, stake: recommended.toFixed(2) }))}>Use</button>
+                  )}
+                  {overPlan && recommended !== null && (
+                    <span className="rounded-xl border border-amber-700 bg-amber-950/40 px-3 py-1">
+                      {money(parseNum(form.stake) - recommended, formCurrency)} over the plan
+                    </span>
+                  )}
+                </div>
+              )}
+              {overBalance && formAccount && (
+                <p className="mt-3 text-xs rounded-xl border border-amber-700 bg-amber-950/40 px-3 py-2">
+                  Stake is more than the {money(formAccountBalance, formAccount.currency)} available in {formAccount.name}.
+                </p>
+              )}
+              <div className="mt-3 flex flex-wrap items-center justify-end gap-3">
+                <input className={input + ' w-56'} list="form-tags" placeholder="Tags, comma separated" value={form.tags ?? ''} onChange={e => setForm(f => ({ ...f, tags: e.target.value }))} aria-label="Tags" />
+                <datalist id="form-tags">
+                  {tagOptions(form.tags ?? '').map(t => <option key={t} value={t} />)}
+                </datalist>
+                {!form.legs && (
+                  <label className="flex items-center gap-2 text-xs opacity-80">
+                    <input
+                      type="checkbox"
+                      checked={!!form.eachWay}
+                      onChange={e => setForm(f => ({
+                        ...f,
+                        eachWay: e.target.checked ? { placeFraction: '0.2', places: '3' } : undefined,
+                        status: !e.target.checked && f.status === 'Placed' ? 'Pending' : f.status,
+                      }))}
+                    />
+                    Each way
+                  </label>
+                )}
+                {!form.legs && form.eachWay && (
+                  <>
+                    <select className={select + ' w-auto'} value={form.eachWay.placeFraction} onChange={e => setForm(f => ({ ...f, eachWay: f.eachWay && { ...f.eachWay, placeFraction: e.target.value } }))} aria-label="Place terms">
+                      {[2, 3, 4, 5, 6].map(d => <option key={d} value={String(1 / d)}>1/{d} odds</option>)}
+                    </select>
+                    <select className={select + ' w-auto'} value={form.eachWay.places} onChange={e => setForm(f => ({ ...f, eachWay: f.eachWay && { ...f.eachWay, places: e.target.value } }))} aria-label="Places">
+                      {[1, 2, 3, 4, 5, 6, 7, 8].map(n => <option key={n} value={String(n)}>{n} places</option>)}
+                    </select>
+                  </>
+                )}
+                {accounts.length > 0 && (
+                  <select
+                    className={select + ' w-auto'}
+                    value={form.accountId ?? ''}
+                    onChange={e => {
+                      const account = accounts.find(a => a.id === e.target.value);
+                      setForm(f => ({ ...f, accountId: account?.id, currency: account ? account.currency : f.currency }));
+                    }}
+                    aria-label="Account"
+                  >
+                    <option value="">No account</option>
+                    {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                  </select>
+                )}
+                <select className={select + ' w-auto'} value={form.stakeType ?? 'Cash'} onChange={e => setForm(f => ({ ...f, stakeType: e.target.value as StakeType }))} aria-label="Stake type">
+                  {STAKE_TYPES.map(t => <option key={t} value={t}>{t === 'Cash' ? 'Cash stake' : t}</option>)}
+                </select>
+                {promotions.length > 0 && (
+                  <select className={select + ' w-auto'} value={form.promotionId ?? ''} onChange={e => setForm(f => ({ ...f, promotionId: e.target.value || undefined }))} aria-label="Promotion">
+                    <option value="">No promotion</option>
+                    {promotions.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                  </select>
+                )}
+                <select className={select + ' w-auto'} value={formCurrency} onChange={e => setForm(f => ({ ...f, currency: e.target.value as CurrencyCode }))} aria-label="Currency">
+                  {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+                <button className={btnGhost + ' text-xs'} type="button" onClick={addLeg}>{form.legs ? 'Add leg' : 'Make it a multiple'}</button>
+                <button className={btnGhost + ' text-xs'} type="button" onClick={() => setPastingSlip(true)}>Paste slip</button>
               </div>
+              {pastingSlip && (
+                <PasteSlipDialog
+                  state={state}
+                  bets={bets}
+                  defaults={{ sport: form.sport, currency: formCurrency, accountId: form.accountId }}
+                  onAdd={addSlipBets}
+                  onClose={() => setPastingSlip(false)}
+                />
+              )}
             </div>
 
             {/* Goal and bankroll */}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div className={card}>
-                <div className="text-xs opacity-80 mb-1">Target Profit (£)</div>
+                <div className="text-xs opacity-80 mb-1">Target Profit ({currencySymbol(base)})</div>
                 <input className={input} type="number" step="1" min="1" value={state.targetProfit} onChange={e => setState(s => ({ ...s, targetProfit: Math.max(1, parseNum(e.target.value, 100)) }))} />
                 <p className="text-xs mt-2 opacity-70">Progress tracks net profit. Adjust this to set your goal.</p>
               </div>
               <div className={card}>
-                <div className="text-xs opacity-80 mb-1">Starting Bankroll (£)</div>
+                <div className="text-xs opacity-80 mb-1">Starting Bankroll ({currencySymbol(base)})</div>
                 <input className={input} type="number" step="1" min="0" value={state.startingBankroll ?? ''} onChange={e => setState(s => ({ ...s, startingBankroll: parseNum(e.target.value, 0) }))} />
-                <p className="text-xs mt-2 opacity-70">Optional, for context in stats.</p>
+                <p className="text-xs mt-2 opacity-70">Plus settled profit gives the bankroll, {money(bankroll)} now.</p>
               </div>
               <div className={card}>
                 <div className="flex items-center justify-between text-xs opacity-80 mb-2"><span>Goal Progress</span><span>{percentFmt.format(totals.progress)}</span></div>
                 <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
                   <div className="h-full bg-indigo-500" style={{ width: `${totals.progress * 100}%` }} />
                 </div>
-                <div className="text-sm mt-2 opacity-80">{currency.format(Math.max(0, totals.profit))} of {currency.format(state.targetProfit)}</div>
+                <div className="text-sm mt-2 opacity-80">{money(Math.max(0, totals.profit))} of {money(state.targetProfit)}</div>
+              </div>
+            </div>
+
+            {/* Staking plan */}
+            <div className={card}>
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-3">
+                <div className="text-sm opacity-80">Staking plan</div>
+                <select
+                  className={select + ' w-auto'}
+                  value={plan?.kind ?? ''}
+                  onChange={e => setPlan(e.target.value ? DEFAULT_PLANS[e.target.value as StakingPlanKind] : undefined)}
+                >
+                  <option value="">None</option>
+                  {(Object.keys(STAKING_PLAN_LABEL) as StakingPlanKind[]).map(k => <option key={k} value={k}>{STAKING_PLAN_LABEL[k]}</option>)}
+                </select>
+              </div>
+              {!plan && <p className="text-xs opacity-70">Pick a plan to get a recommended stake on the add form.</p>}
+              {plan?.kind === 'flat' && (
+                <label className="flex items-center gap-2 text-xs opacity-80">
+                  Stake ({currencySymbol(base)})
+                  <input className={input + ' w-28'} type="number" step="0.5" min="0.01" value={plan.stake} onChange={e => setPlan({ kind: 'flat', stake: Math.max(0.01, parseNum(e.target.value, 1)) })} />
+                </label>
+              )}
+              {plan?.kind === 'percent' && (
+                <label className="flex items-center gap-2 text-xs opacity-80">
+                  Percent of bankroll
+                  <input className={input + ' w-24'} type="number" step="0.5" min="0.1" max="100" value={+(plan.percent * 100).toFixed(2)} onChange={e => setPlan({ kind: 'percent', percent: Math.min(1, Math.max(0.001, parseNum(e.target.value, 2) / 100)) })} />
+                </label>
+              )}
+              {plan?.kind === 'kelly' && (
+                <label className="flex items-center gap-2 text-xs opacity-80">
+                  Kelly fraction
+                  <select className={select + ' w-auto'} value={String(plan.fraction)} onChange={e => setPlan({ kind: 'kelly', fraction: parseNum(e.target.value, 1) })}>
+                    {[[1, 'Full'], [0.5, 'Half'], [0.25, 'Quarter'], [0.1, 'Tenth']].map(([f, label]) => <option key={f} value={String(f)}>{label}</option>)}
+                  </select>
+                </label>
+              )}
+              {plan?.kind === 'ladder' && (
+                <div className="space-y-2">
+                  {plan.rungs.map((r, i) => (
+                    <div key={i} className="flex flex-wrap items-center gap-2 text-xs">
+                      <span className="opacity-80">From odds</span>
+                      <input className={input + ' w-24'} type="number" step="0.01" min="1.01" value={r.minOdds} onChange={e => setPlan({ kind: 'ladder', rungs: plan.rungs.map((x, j) => (j === i ? { ...x, minOdds: Math.max(1.01, parseNum(e.target.value, 1.01)) } : x)) })} />
+                      <span className="opacity-80">stake ({currencySymbol(base)})</span>
+                      <input className={input + ' w-24'} type="number" step="0.5" min="0" value={r.stake} onChange={e => setPlan({ kind: 'ladder', rungs: plan.rungs.map((x, j) => (j === i ? { ...x, stake: Math.max(0, parseNum(e.target.value)) } : x)) })} />
+                      <button className="opacity-60 hover:opacity-100" type="button" onClick={() => setPlan({ kind: 'ladder', rungs: plan.rungs.filter((_, j) => j !== i) })} aria-label="Remove rung">×</button>
+                    </div>
+                  ))}
+                  <button className={btnGhost + ' text-xs'} type="button" onClick={() => setPlan({ kind: 'ladder', rungs: [...plan.rungs, { minOdds: (plan.rungs[plan.rungs.length - 1]?.minOdds ?? 1) + 1, stake: 1 }] })}>Add rung</button>
+                </div>
+              )}
+              {plan && <p className="text-xs mt-2 opacity-70">Bankroll {money(bankroll)}, starting bankroll plus settled profit.</p>}
+            </div>
+
+            {/* Bookmaker accounts */}
+            <div className={card}>
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-3">
+                <div className="text-sm opacity-80">Bookmaker accounts</div>
+                <div className="text-xs opacity-80">
+                  Overall balance <span className="font-semibold">{money(totalBalance(accounts, bets, state, toISODateInput()))}</span>
+                  {unassignedCount > 0 && <span className="opacity-60"> ({unassignedCount} bets not on an account)</span>}
+                </div>
+              </div>
+              {accounts.length > 0 && (
+                <div className="overflow-x-auto mb-3">
+                  <table className="w-full text-sm">
+                    <thead className="text-left text-slate-300 border-b border-slate-800">
+                      <tr>
+                        <th className="py-2 pr-3">Account</th>
+                        <th className="py-2 pr-3">Bets</th>
+                        <th className="py-2 pr-3">Deposited</th>
+                        <th className="py-2 pr-3">Withdrawn</th>
+                        <th className="py-2 pr-3">Balance</th>
+                        <th className="py-2 pr-3 text-right"></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {accounts.map(a => {
+                        const betCount = bets.filter(b => b.accountId === a.id).length;
+                        const deposited = a.transactions.filter(t => t.kind !== 'Withdrawal').reduce((sum, t) => sum + t.amount, 0);
+                        const withdrawn = a.transactions.filter(t => t.kind === 'Withdrawal').reduce((sum, t) => sum + t.amount, 0);
+                        const balance = accountBalance(a, bets, state.rates ?? []);
+                        return (
+                          <React.Fragment key={a.id}>
+                            <tr className="border-b border-slate-800/80 cursor-pointer" onClick={() => setOpenAccountId(id => (id === a.id ? null : a.id))} title="Show transactions">
+                              <td className="py-2 pr-3">{a.name} <span className="text-xs opacity-60">{a.currency}</span></td>
+                              <td className="py-2 pr-3">{betCount}</td>
+                              <td className="py-2 pr-3">{money(deposited, a.currency)}</td>
+                              <td className="py-2 pr-3">{money(withdrawn, a.currency)}</td>
+                              <td className={'py-2 pr-3 ' + (balance < 0 ? 'text-rose-400' : '')}>{money(balance, a.currency)}</td>
+                              <td className="py-2 pr-3 text-right">
+                                <button
+                                  className={btnGhost + ' text-xs'}
+                                  type="button"
+                                  disabled={betCount > 0}
+                                  title={betCount > 0 ? 'Move or delete its bets first' : undefined}
+                                  onClick={e => { e.stopPropagation(); removeAccount(a.id); }}
+                                >
+                                  Remove
+                                </button>
+                              </td>
+                            </tr>
+                            {openAccountId === a.id && (
+                              <tr className="border-b border-slate-800/80">
+                                <td colSpan={6} className="py-2">
+                                  {a.transactions.length === 0 ? (
+                                    <div className="text-xs opacity-60">No deposits, withdrawals or bonuses yet</div>
+                                  ) : (
+                                    <table className="w-full text-xs">
+                                      <tbody>
+                                        {a.transactions.slice().sort((x, y) => y.date.localeCompare(x.date)).map(t => (
+                                          <tr key={t.id}>
+                                            <td className="py-1 pr-3 whitespace-nowrap">{t.date}</td>
+                                            <td className="py-1 pr-3">{t.kind}</td>
+                                            <td className={'py-1 pr-3 ' + (transactionAmount(t) < 0 ? 'text-rose-400' : 'text-emerald-400')}>{money(transactionAmount(t), a.currency)}</td>
+                                            <td className="py-1 pr-3 opacity-80">{t.note}</td>
+                                            <td className="py-1 pr-3 text-right">
+                                              <button className="opacity-60 hover:opacity-100" type="button" onClick={() => removeTransaction(a.id, t.id)} aria-label="Remove transaction">×</button>
+                                            </td>
+                                          </tr>
+                                        ))}
+                                      </tbody>
+                                    </table>
+                                  )}
+                                </td>
+                              </tr>
+                            )}
+                          </React.Fragment>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+              <div className="grid grid-cols-2 md:grid-cols-12 gap-3 items-end">
+                <div className="col-span-2 md:col-span-4">
+                  <label className="text-xs opacity-80">New account</label>
+                  <input className={input} placeholder="Bookmaker name" value={accountDraft.name} onChange={e => setAccountDraft(d => ({ ...d, name: e.target.value }))} />
+                </div>
+                <div className="col-span-1 md:col-span-2">
+                  <label className="text-xs opacity-80">Currency</label>
+                  <select className={select} value={accountDraft.currency ?? base} onChange={e => setAccountDraft(d => ({ ...d, currency: e.target.value as CurrencyCode }))}>
+                    {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+                  </select>
+                </div>
+                <div className="col-span-1 md:col-span-2 flex justify-end">
+                  <button className={btn + ' w-full md:w-auto'} type="button" disabled={!accountDraft.name.trim()} onClick={addAccount}>Add account</button>
+                </div>
+              </div>
+              {accounts.length > 0 && (
+                <div className="grid grid-cols-2 md:grid-cols-12 gap-3 items-end mt-3">
+                  <div className="col-span-2 md:col-span-2">
+                    <label className="text-xs opacity-80">Date</label>
+                    <input className={input} type="date" value={txDraft.date} onChange={e => setTxDraft(d => ({ ...d, date: e.target.value }))} />
+                  </div>
+                  <div className="col-span-1 md:col-span-2">
+                    <label className="text-xs opacity-80">Account</label>
+                    <select className={select} value={txAccount?.id ?? ''} onChange={e => setTxDraft(d => ({ ...d, accountId: e.target.value }))}>
+                      {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                    </select>
+                  </div>
+                  <div className="col-span-1 md:col-span-2">
+                    <label className="text-xs opacity-80">Type</label>
+                    <select className={select} value={txDraft.kind} onChange={e => setTxDraft(d => ({ ...d, kind: e.target.value as TransactionKind }))}>
+                      {TRANSACTION_KINDS.map(k => <option key={k} value={k}>{k}</option>)}
+                    </select>
+                  </div>
+                  <div className="col-span-1 md:col-span-2">
+                    <label className="text-xs opacity-80">Amount{txAccount ? ` (${currencySymbol(txAccount.currency)})` : ''}</label>
+                    <input className={input} type="number" step="0.01" min="0" value={txDraft.amount} onChange={e => setTxDraft(d => ({ ...d, amount: e.target.value }))} />
+                  </div>
+                  <div className="col-span-1 md:col-span-3">
+                    <label className="text-xs opacity-80">Note</label>
+                    <input className={input} placeholder="optional" value={txDraft.note} onChange={e => setTxDraft(d => ({ ...d, note: e.target.value }))} />
+                  </div>
+                  <div className="col-span-2 md:col-span-1 flex justify-end">
+                    <button className={btn + ' w-full md:w-auto'} type="button" disabled={!txValid} onClick={addTransaction}>Add</button>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* Promotions */}
+            <div className={card}>
+              <div className="flex items-center justify-between mb-3">
+                <div className="text-sm opacity-80">Promotions</div>
+                <div className="text-xs opacity-60">link free bets, bonus stakes and qualifying bets to an offer</div>
+              </div>
+              {promotions.length > 0 && (
+                <ul className="mb-3 space-y-1 text-sm">
+                  {promotions.map(p => {
+                    const used = bets.filter(b => b.promotionId === p.id).length;
+                    return (
+                      <li key={p.id} className="flex items-center justify-between gap-3 border-b border-slate-800/80 py-1">
+                        <span>
+                          {p.name}
+                          {p.accountId && <span className="ml-2 text-xs opacity-60">{accounts.find(a => a.id === p.accountId)?.name}</span>}
+                          <span className="ml-2 text-xs opacity-60">{used} bets</span>
+                        </span>
+                        <button className={btnGhost + ' text-xs'} type="button" disabled={used > 0} title={used > 0 ? 'Unlink its bets first' : undefined} onClick={() => removePromotion(p.id)}>Remove</button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+              <div className="grid grid-cols-2 md:grid-cols-12 gap-3 items-end">
+                <div className="col-span-2 md:col-span-5">
+                  <label className="text-xs opacity-80">New promotion</label>
+                  <input className={input} placeholder="Weekly £5 free bet" value={promoDraft.name} onChange={e => setPromoDraft(d => ({ ...d, name: e.target.value }))} />
+                </div>
+                {accounts.length > 0 && (
+                  <div className="col-span-1 md:col-span-3">
+                    <label className="text-xs opacity-80">Bookmaker</label>
+                    <select className={select} value={promoDraft.accountId ?? ''} onChange={e => setPromoDraft(d => ({ ...d, accountId: e.target.value || undefined }))}>
+                      <option value="">Any</option>
+                      {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                    </select>
+                  </div>
+                )}
+                <div className="col-span-1 md:col-span-2 flex justify-end">
+                  <button className={btn + ' w-full md:w-auto'} type="button" disabled={!promoDraft.name.trim()} onClick={addPromotion}>Add promotion</button>
+                </div>
+              </div>
+            </div>
+
+            {/* Profiles */}
+            <div className={card}>
+              <div className="flex items-center justify-between mb-3">
+                <div className="text-sm opacity-80">Profiles</div>
+                <div className="text-xs opacity-60">each has its own bets and settings</div>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-12 gap-3 items-end">
+                <div className="col-span-2 md:col-span-5">
+                  <label className="text-xs opacity-80">This profile&apos;s name</label>
+                  <input className={input} value={profileName} onChange={e => setProfileName(e.target.value)} />
+                </div>
+                <div className="col-span-2 md:col-span-2 flex justify-end">
+                  <button className={btnGhost + ' w-full md:w-auto'} type="button" disabled={!profileName.trim() || profileName.trim() === currentProfile.name} onClick={() => profiles.rename(profileId, profileName.trim())}>Rename</button>
+                </div>
+              </div>
+              {otherProfiles.length > 0 && (
+                <>
+                  <ul className="mt-3 space-y-2 text-sm">
+                    {otherProfiles.map(p => (
+                      <li key={p.id} className="flex items-center justify-between gap-3 border-b border-slate-800/80 pb-2">
+                        <span>{p.name}</span>
+                        <div className="flex gap-2">
+                          <button className={btnGhost + ' text-xs'} type="button" onClick={() => profiles.switchTo(p.id)}>Open</button>
+                          <button className={btnGhost + ' text-xs'} type="button" onClick={() => removeProfile(p.id)}>Remove</button>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                  {profileError && <p className="mt-2 text-xs text-amber-400">{profileError}</p>}
+                  <div className="mt-3 grid grid-cols-2 md:grid-cols-12 gap-3 items-end">
+                    <div className="col-span-2 md:col-span-5">
+                      <label className="text-xs opacity-80">Send the {filteredBets.length} bets matching the filter to</label>
+                      <select className={select} value={transferTo} onChange={e => setTransferTo(e.target.value)}>
+                        <option value="">Choose a profile</option>
+                        {otherProfiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                      </select>
+                    </div>
+                    <div className="col-span-2 md:col-span-3 flex gap-2 justify-end">
+                      <button className={btnGhost} type="button" disabled={!transferTo || !filteredBets.length} onClick={() => transferBets(filteredBets, transferTo, 'copy')}>Copy</button>
+                      <button className={btnGhost} type="button" disabled={!transferTo || !filteredBets.length} onClick={() => transferBets(filteredBets, transferTo, 'move')}>Move</button>
+                    </div>
+                  </div>
+                </>
+              )}
+            </div>
+
+            {/* Sports and markets */}
+            <div className={card}>
+              <div className="flex items-center justify-between mb-3">
+                <div className="text-sm opacity-80">Sports and markets</div>
+                <div className="text-xs opacity-60">anything in use by a bet cannot be removed</div>
+              </div>
+              <ul className="mb-3 space-y-2 text-sm">
+                {sports.map(d => {
+                  const used = sportUses(d.name);
+                  return (
+                    <li key={d.name} className="border-b border-slate-800/80 pb-2">
+                      <div className="flex items-center justify-between gap-3">
+                        <span>
+                          {d.name}
+                          <span className="ml-2 text-xs opacity-60">{used} bets</span>
+                        </span>
+                        <button className={btnGhost + ' text-xs'} type="button" disabled={used > 0} title={used > 0 ? 'Move its bets to another sport first' : undefined} onClick={() => removeSport(d.name)}>Remove</button>
+                      </div>
+                      <div className="mt-1 flex flex-wrap items-center gap-2 text-xs">
+                        {d.markets.map(m => {
+                          const marketUsed = sportUses(d.name, m);
+                          return (
+                            <span key={m} className="inline-flex items-center gap-1 rounded-md bg-slate-800 px-1.5 py-0.5">
+                              {m}
+                              {marketUsed > 0
+                                ? <span className="opacity-60">{marketUsed}</span>
+                                : <button className="opacity-60 hover:opacity-100" type="button" onClick={() => removeMarket(d.name, m)} aria-label={`Remove ${m}`}>×</button>}
+                            </span>
+                          );
+                        })}
+                        <input
+                          className={input + ' w-40 text-xs py-1'}
+                          placeholder="Add market"
+                          value={marketDrafts[d.name] ?? ''}
+                          onChange={e => setMarketDrafts(m => ({ ...m, [d.name]: e.target.value }))}
+                          onKeyDown={e => { if (e.key === 'Enter') addMarket(d.name); }}
+                          aria-label={`New ${d.name} market`}
+                        />
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+              <div className="grid grid-cols-2 md:grid-cols-12 gap-3 items-end">
+                <div className="col-span-2 md:col-span-5">
+                  <label className="text-xs opacity-80">New sport</label>
+                  <input className={input} placeholder="Darts" value={sportDraft} onChange={e => setSportDraft(e.target.value)} />
+                </div>
+                <div className="col-span-2 md:col-span-2 flex justify-end">
+                  <button className={btn + ' w-full md:w-auto'} type="button" disabled={!sportDraft.trim()} onClick={addSport}>Add sport</button>
+                </div>
+              </div>
+              {knownTags.length > 0 && (
+                <p className="mt-3 text-xs opacity-80">
+                  Tags in use: {knownTags.map(t => `${t} (${bets.filter(b => b.tags?.includes(t)).length})`).join(', ')}
+                </p>
+              )}
+            </div>
+
+            {/* Quick entry rules */}
+            <div className={card}>
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-3">
+                <div className="text-sm opacity-80">Quick entry rules</div>
+                <div className="flex items-center gap-3 text-xs opacity-60">
+                  <span>a keyword typed in the Bet field picks the sport and market, higher rules win</span>
+                  {state.quickRules && <button className="underline hover:opacity-100" type="button" onClick={() => setQuickRules(undefined)}>Restore defaults</button>}
+                </div>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="text-left text-slate-300 border-b border-slate-800">
+                    <tr>
+                      <th className="py-2 pr-3">Keyword</th>
+                      <th className="py-2 pr-3">Sport</th>
+                      <th className="py-2 pr-3">Market</th>
+                      <th className="py-2 pr-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rules.map((r, i) => (
+                      <tr key={r.id} className="border-b border-slate-800/80">
+                        <td className="py-2 pr-3">
+                          <input className={input} value={r.keyword} onChange={e => updateRule(r.id, { keyword: e.target.value })} aria-label="Keyword" />
+                        </td>
+                        <td className="py-2 pr-3">
+                          <select className={select} value={r.sport} onChange={e => updateRule(r.id, { sport: e.target.value, market: undefined })} aria-label="Sport">
+                            {Array.from(new Set([...sportOptions, r.sport])).map(sp => <option key={sp} value={sp}>{sp}</option>)}
+                          </select>
+                        </td>
+                        <td className="py-2 pr-3">
+                          <select className={select} value={r.market ?? ''} onChange={e => updateRule(r.id, { market: e.target.value || undefined })} aria-label="Market">
+                            <option value="">Sport only</option>
+                            {Array.from(new Set([...marketsFor(state, r.sport), ...(r.market ? [r.market] : [])])).map(m => <option key={m} value={m}>{m}</option>)}
+                          </select>
+                        </td>
+                        <td className="py-2 pr-3 whitespace-nowrap text-right">
+                          <button className={btnGhost + ' text-xs'} type="button" disabled={i === 0} onClick={() => moveRule(r.id, -1)} aria-label="Move up">↑</button>
+                          <button className={btnGhost + ' text-xs ml-1'} type="button" disabled={i === rules.length - 1} onClick={() => moveRule(r.id, 1)} aria-label="Move down">↓</button>
+                          <button className={btnGhost + ' text-xs ml-1'} type="button" onClick={() => setQuickRules(rules.filter(x => x.id !== r.id))}>Remove</button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="mt-3 grid grid-cols-2 md:grid-cols-12 gap-3 items-end">
+                <div className="col-span-2 md:col-span-4">
+                  <label className="text-xs opacity-80">New keyword</label>
+                  <input className={input} placeholder="bookings" value={ruleDraft.keyword} onChange={e => setRuleDraft(d => ({ ...d, keyword: e.target.value }))} onKeyDown={e => { if (e.key === 'Enter') addRule(); }} />
+                </div>
+                <div className="col-span-1 md:col-span-3">
+                  <label className="text-xs opacity-80">Sport</label>
+                  <select className={select} value={ruleDraft.sport} onChange={e => setRuleDraft(d => ({ ...d, sport: e.target.value, market: '' }))}>
+                    {sportOptions.map(sp => <option key={sp} value={sp}>{sp}</option>)}
+                  </select>
+                </div>
+                <div className="col-span-1 md:col-span-3">
+                  <label className="text-xs opacity-80">Market</label>
+                  <select className={select} value={ruleDraft.market} onChange={e => setRuleDraft(d => ({ ...d, market: e.target.value }))}>
+                    <option value="">Sport only</option>
+                    {marketsFor(state, ruleDraft.sport).map(m => <option key={m} value={m}>{m}</option>)}
+                  </select>
+                </div>
+                <div className="col-span-2 md:col-span-2 flex justify-end">
+                  <button className={btn + ' w-full md:w-auto'} type="button" disabled={!ruleDraft.keyword.trim()} onClick={addRule}>Add rule</button>
+                </div>
               </div>
+              <p className="mt-3 text-xs opacity-60">
+                Sport names work without a rule. Type the stake with a currency sign or followed by &ldquo;on&rdquo;, and the odds after @,
+                as a fraction or at the end, e.g. &ldquo;£5 Villa race to 9 corners @ 2.1&rdquo; or &ldquo;10 on Alcaraz 6/4 tennis&rdquo;.
+              </p>
+            </div>
+
+            {/* Currencies */}
+            <div className={card}>
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-3">
+                <div className="text-sm opacity-80">Currencies and rates</div>
+                <label className="flex items-center gap-2 text-xs opacity-80">
+                  Base currency
+                  <select className={select + ' w-auto'} value={base} onChange={e => setState(s => ({ ...s, baseCurrency: e.target.value as CurrencyCode }))}>
+                    {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+                  </select>
+                </label>
+              </div>
+              {missing.length > 0 && (
+                <p className="text-xs mb-3 rounded-xl border border-amber-700 bg-amber-950/40 px-3 py-2">
+                  No rate from {missing.join(', ')} to {base}, those bets are counted 1:1 until one is added.
+                </p>
+              )}
+              <div className="grid grid-cols-2 md:grid-cols-12 gap-3 items-end">
+                <div className="col-span-2 md:col-span-3">
+                  <label className="text-xs opacity-80">From date</label>
+                  <input className={input} type="date" value={rateDraft.date} onChange={e => setRateDraft(d => ({ ...d, date: e.target.value }))} />
+                </div>
+                <div className="col-span-1 md:col-span-2">
+                  <label className="text-xs opacity-80">1 unit of</label>
+                  <select className={select} value={rateDraft.from} onChange={e => setRateDraft(d => ({ ...d, from: e.target.value as CurrencyCode }))}>
+                    {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+                  </select>
+                </div>
+                <div className="col-span-1 md:col-span-2">
+                  <label className="text-xs opacity-80">In</label>
+                  <select className={select} value={rateDraft.to ?? base} onChange={e => setRateDraft(d => ({ ...d, to: e.target.value as CurrencyCode }))}>
+                    {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+                  </select>
+                </div>
+                <div className="col-span-1 md:col-span-3">
+                  <label className="text-xs opacity-80">Rate</label>
+                  <input className={input} type="number" step="0.0001" min="0" value={rateDraft.rate} onChange={e => setRateDraft(d => ({ ...d, rate: e.target.value }))} />
+                </div>
+                <div className="col-span-1 md:col-span-2 flex justify-end">
+                  <button className={btn + ' w-full md:w-auto'} type="button" disabled={!rateValid} onClick={addRate}>Add rate</button>
+                </div>
+              </div>
+              {(state.rates ?? []).length > 0 && (
+                <div className="overflow-x-auto mt-3">
+                  <table className="w-full text-sm">
+                    <thead className="text-left text-slate-300 border-b border-slate-800">
+                      <tr>
+                        <th className="py-2 pr-3">From date</th>
+                        <th className="py-2 pr-3">Pair</th>
+                        <th className="py-2 pr-3">Rate</th>
+                        <th className="py-2 pr-3 text-right"></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {(state.rates ?? []).slice().sort((a, b) => b.date.localeCompare(a.date)).map(r => (
+                        <tr key={r.id} className="border-b border-slate-800/80">
+                          <td className="py-2 pr-3 whitespace-nowrap">{r.date}</td>
+                          <td className="py-2 pr-3">{r.from} to {r.to}</td>
+                          <td className="py-2 pr-3">
+                            <input className={input + ' w-28'} type="number" step="0.0001" min="0" defaultValue={r.rate} onBlur={e => updateRate(r.id, e.target.value)} aria-label="Rate" />
+                          </td>
+                          <td className="py-2 pr-3 text-right">
+                            <button className={btnGhost + ' text-xs'} type="button" onClick={() => removeRate(r.id)}>Remove</button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+
+            {/* Challenge run */}
+            <div className={card}>
+              <div className="flex items-center justify-between mb-2">
+                <div className="text-sm opacity-80">Challenge run</div>
+                <div className="text-xs opacity-60">{(state.runs ?? []).length} attempts so far</div>
+              </div>
+              {!activeRun ? (
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                  <p className="text-sm opacity-80">
+                    Roll {money(state.startingBankroll ?? 0)} into {money((state.startingBankroll ?? 0) + state.targetProfit)}, every return goes into the next bet until it hits the target or loses.
+                  </p>
+                  <button className={btn} type="button" disabled={(state.startingBankroll ?? 0) <= 0} onClick={startRun}>Start run</button>
+                </div>
+              ) : (() => {
+                const goal = activeRun.run.startStake + activeRun.run.target;
+                const bank = activeRun.last ? (isBetSettled(activeRun.last) ? effectiveReturn(activeRun.last) ?? 0 : activeRun.last.stake) : activeRun.run.startStake;
+                const awaiting = !!activeRun.last && !isBetSettled(activeRun.last);
+                return (
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between text-xs opacity-80">
+                      <span>Step {activeRun.steps.length}{awaiting ? ' pending' : ''}, rolling {money(bank, activeRun.last ? betCurrency(activeRun.last) : base)}</span>
+                      <span>{money(activeRun.run.startStake)} to {money(goal)}</span>
+                    </div>
+                    <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+                      <div className="h-full bg-indigo-500" style={{ width: `${clamp01(bank / goal) * 100}%` }} />
+                    </div>
+                    <div className="flex gap-2 justify-end">
+                      <button className={btn} type="button" disabled={awaiting || form.runId === activeRun.run.id} onClick={nextRunStep}>
+                        {activeRun.steps.length === 0 ? 'Add first step' : 'Add next step'}
+                      </button>
+                      <button className={btnGhost} type="button" onClick={abandonRun}>Abandon run</button>
+                    </div>
+                  </div>
+                );
+              })()}
             </div>
 
             {/* Stats */}
             <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4">
-              <div className={card}><div className="text-xs opacity-80">Total Staked</div><div className="text-lg sm:text-2xl font-semibold">{currency.format(totals.totalStaked)}</div></div>
-              <div className={card}><div className="text-xs opacity-80">Total Returned</div><div className="text-lg sm:text-2xl font-semibold">{currency.format(totals.totalReturned)}</div></div>
-              <div className={card}><div className="text-xs opacity-80">Profit</div><div className={'text-lg sm:text-2xl font-semibold ' + (totals.profit >= 0 ? 'text-emerald-400' : 'text-rose-400')}>{currency.format(totals.profit)}</div></div>
+              <div className={card}><div className="text-xs opacity-80">Total Staked</div><div className="text-lg sm:text-2xl font-semibold">{money(totals.totalStaked)}</div></div>
+              <div className={card}><div className="text-xs opacity-80">Total Returned</div><div className="text-lg sm:text-2xl font-semibold">{money(totals.totalReturned)}</div></div>
+              <div className={card}><div className="text-xs opacity-80">Profit</div><div className={'text-lg sm:text-2xl font-semibold ' + (totals.profit >= 0 ? 'text-emerald-400' : 'text-rose-400')}>{money(totals.profit)}</div></div>
               <div className={card}><div className="text-xs opacity-80">Win Rate</div><div className="text-lg sm:text-2xl font-semibold">{percentFmt.format(totals.winRate)}</div></div>
             </div>
 
-            {/* Chart */}
-            <div className={card}>
-              <div className="flex items-center justify-between mb-2">
-                <div className="text-sm opacity-80">Cumulative profit</div>
-                <div className="text-xs opacity-60">by settled date</div>
+            {/* Charts */}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              <div className={card}>
+                <div className="flex items-center justify-between mb-2">
+                  <div className="text-sm opacity-80">Cumulative profit</div>
+                  <div className="text-xs opacity-60">by settled date</div>
+                </div>
+                <div className="text-indigo-400">
+                  <LineChart points={chartPoints} />
+                </div>
               </div>
-              <div className="text-indigo-400">
-                <LineChart points={chartPoints} />
+              <div className={card}>
+                <div className="flex items-center justify-between mb-2">
+                  <div className="text-sm opacity-80">Bankroll</div>
+                  <div className="text-xs opacity-60">all accounts, {base}</div>
+                </div>
+                <div className="text-emerald-400">
+                  <LineChart points={bankrollPoints} />
+                </div>
               </div>
             </div>
 
             <div className={card}>
               <div className="flex items-center justify-between mb-2">
-                <div className="text-sm opacity-80">Football categories performance</div>
-                <div className="text-xs opacity-60">based on current filters</div>
+                <div className="flex items-center gap-2 text-sm opacity-80">
+                  Performance by
+                  <select className={select + ' w-auto'} value={dimension} onChange={e => setDimension(e.target.value as Dimension)} aria-label="Group by">
+                    {DIMENSIONS.map(d => <option key={d} value={d}>{DIMENSION_LABEL[d].toLowerCase()}</option>)}
+                  </select>
+                </div>
+                <div className="text-xs opacity-60">cash bets, based on current filters</div>
               </div>
               <div className="overflow-x-auto">
                 <table className="w-full text-sm">
                   <thead className="text-left text-slate-300 border-b border-slate-800">
                     <tr>
-                      <th className="py-2 pr-3">Category</th>
+                      <th className="py-2 pr-3">{DIMENSION_LABEL[dimension]}</th>
                       <th className="py-2 pr-3">Bets</th>
                       <th className="py-2 pr-3">Settled</th>
                       <th className="py-2 pr-3">Staked</th>
@@ -513,16 +1915,16 @@ export default function RollerBetsTracker() {
                     </tr>
                   </thead>
                   <tbody>
-                    {footballCategoryStats.length === 0 ? (
-                      <tr><td colSpan={8} className="py-4 text-center text-slate-400">No football bets yet</td></tr>
-                    ) : footballCategoryStats.map(row => (
-                      <tr key={row.category as string} className="border-b border-slate-800/80">
-                        <td className="py-2 pr-3">{row.category}</td>
+                    {groupStats.length === 0 ? (
+                      <tr><td colSpan={8} className="py-4 text-center text-slate-400">No cash bets yet</td></tr>
+                    ) : groupStats.map(row => (
+                      <tr key={row.group} className="border-b border-slate-800/80">
+                        <td className="py-2 pr-3">{row.group}</td>
                         <td className="py-2 pr-3">{row.bets}</td>
                         <td className="py-2 pr-3">{row.settled}</td>
-                        <td className="py-2 pr-3">{currency.format(row.staked)}</td>
-                        <td className="py-2 pr-3">{currency.format(row.returned)}</td>
-                        <td className={'py-2 pr-3 ' + (row.profit >= 0 ? 'text-emerald-400' : 'text-rose-400')}>{currency.format(row.profit)}</td>
+                        <td className="py-2 pr-3">{money(row.staked)}</td>
+                        <td className="py-2 pr-3">{money(row.returned)}</td>
+                        <td className={'py-2 pr-3 ' + (row.profit >= 0 ? 'text-emerald-400' : 'text-rose-400')}>{money(row.profit)}</td>
                         <td className="py-2 pr-3">{percentFmt.format(row.roi)}</td>
                         <td className="py-2 pr-3">{percentFmt.format(row.winRate)}</td>
                       </tr>
@@ -532,6 +1934,87 @@ export default function RollerBetsTracker() {
               </div>
             </div>
 
+            {/* Roller chains */}
+            <div className={card}>
+              <div className="flex items-center justify-between mb-2">
+                <div className="text-sm opacity-80">Roller chains</div>
+                <div className="text-xs opacity-60">use Roll forward on a won bet to start one</div>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="text-left text-slate-300 border-b border-slate-800">
+                    <tr>
+                      <th className="py-2 pr-3">Started with</th>
+                      <th className="py-2 pr-3">Steps</th>
+                      <th className="py-2 pr-3">Start stake</th>
+                      <th className="py-2 pr-3">Combined odds</th>
+                      <th className="py-2 pr-3">Return</th>
+                      <th className="py-2 pr-3">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {chains.length === 0 ? (
+                      <tr><td colSpan={6} className="py-4 text-center text-slate-400">No chains yet</td></tr>
+                    ) : chains.map(c => (
+                      <React.Fragment key={c.chainId}>
+                        <tr
+                          className="border-b border-slate-800/80 cursor-pointer"
+                          onClick={() => setOpenChainId(id => (id === c.chainId ? null : c.chainId))}
+                          title="Show steps"
+                        >
+                          <td className="py-2 pr-3">{c.steps[0].bet.description}</td>
+                          <td className="py-2 pr-3">{c.steps.length}</td>
+                          <td className="py-2 pr-3">{money(c.startStake, c.currency)}</td>
+                          <td className="py-2 pr-3">{fmtOdds(c.combinedOdds)}</td>
+                          <td className="py-2 pr-3">{c.status === 'Running' ? `${money(c.finalReturn, c.currency)} potential` : money(c.finalReturn, c.currency)}</td>
+                          <td className="py-2 pr-3">
+                            <span className={
+                              'inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ' +
+                              (c.status === 'Running' ? 'bg-slate-700/70' : c.status === 'Banked' ? 'bg-emerald-600/70' : 'bg-rose-600/70')
+                            }>
+                              {c.status}
+                            </span>
+                          </td>
+                        </tr>
+                        {openChainId === c.chainId && (
+                          <tr className="border-b border-slate-800/80">
+                            <td colSpan={6} className="py-2">
+                              <table className="w-full text-xs">
+                                <thead className="text-left text-slate-400">
+                                  <tr>
+                                    <th className="py-1 pr-3">Step</th>
+                                    <th className="py-1 pr-3">Date</th>
+                                    <th className="py-1 pr-3">Bet</th>
+                                    <th className="py-1 pr-3">Odds</th>
+                                    <th className="py-1 pr-3">Stake</th>
+                                    <th className="py-1 pr-3">Return</th>
+                                    <th className="py-1 pr-3">Combined so far</th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {c.steps.map(st => (
+                                    <tr key={st.bet.id}>
+                                      <td className="py-1 pr-3">{st.step}</td>
+                                      <td className="py-1 pr-3 whitespace-nowrap">{st.bet.date}</td>
+                                      <td className="py-1 pr-3">{st.bet.description}</td>
+                                      <td className="py-1 pr-3">{fmtOdds(st.bet.oddsDecimal)}</td>
+                                      <td className="py-1 pr-3">{money(st.bet.stake, betCurrency(st.bet))}</td>
+                                      <td className="py-1 pr-3">{st.ret === null ? 'N/A' : money(st.ret, betCurrency(st.bet))}</td>
+                                      <td className="py-1 pr-3">{fmtOdds(st.combinedOdds)}</td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
             {/* Filters */}
             <div className={card}>
               <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
@@ -539,19 +2022,14 @@ export default function RollerBetsTracker() {
                   <label className="text-xs opacity-80">Status</label>
                   <select className={select} value={filter.status} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setFilter(f => ({ ...f, status: e.target.value as BetStatus | 'All' }))}>
                     <option>All</option>
-                    <option>Pending</option>
-                    <option>Won</option>
-                    <option>Lost</option>
+                    {BET_STATUSES.map(s => <option key={s}>{s}</option>)}
                   </select>
                 </div>
                 <div className="col-span-1 md:col-span-1">
                   <label className="text-xs opacity-80">Sport</label>
                   <select className={select} value={filter.sport} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setFilter(f => ({ ...f, sport: e.target.value as Sport | 'All' }))}>
                     <option>All</option>
-                    <option>Football</option>
-                    <option>Cricket</option>
-                    <option>Tennis</option>
-                    <option>Other</option>
+                    {sportOptions.map(s => <option key={s} value={s}>{s}</option>)}
                   </select>
                 </div>
                 <div className="col-span-1 md:col-span-2">
@@ -567,15 +2045,71 @@ export default function RollerBetsTracker() {
 
             {/* Table */}
             <div className={card}>
+              {editClash && (
+                <div className="mb-3 flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-xl border border-amber-700 bg-amber-950/40 px-3 py-2 text-xs sm:text-sm" role="alert">
+                  <span>
+                    &ldquo;{editClash.description}&rdquo; was {editClash.deleted ? 'deleted' : 'changed'} in another tab
+                    {editClash.deleted ? '.' : ' while you were editing it. Saving puts your values over theirs.'}
+                  </span>
+                  <div className="flex gap-2">
+                    {!editClash.deleted && editingId && (
+                      <button className={btnGhost + ' text-xs'} type="button" onClick={() => { const b = bets.find(x => x.id === editingId); if (b) beginEdit(b); }}>Load theirs</button>
+                    )}
+                    <button className={btnGhost + ' text-xs'} type="button" onClick={() => setEditClash(null)}>Dismiss</button>
+                  </div>
+                </div>
+              )}
+              {selectedBets.length > 0 && (
+                <div className="mb-3 space-y-2 rounded-xl border border-indigo-500/40 bg-indigo-500/10 px-3 py-2 text-xs sm:text-sm">
+                  <div className="flex flex-wrap items-center gap-3">
+                    <span>{selectedBets.length} selected</span>
+                    {hiddenSelected > 0 && <span className="opacity-60">{hiddenSelected} more selected but hidden by the filter, left alone</span>}
+                    {!allFilteredSelected && (
+                      <button className="underline opacity-80 hover:opacity-100" type="button" onClick={() => selectFiltered(true)}>Select all {filteredBets.length} matching the filter</button>
+                    )}
+                    <button className="underline opacity-80 hover:opacity-100" type="button" onClick={() => selectFiltered(false)}>Clear</button>
+                    {selectedBets.some(b => b.legs) && <span className="opacity-60">multiples keep the status, sport and market of their legs</span>}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <button className={btnGhost + ' text-xs'} type="button" onClick={() => settleSelected('Won')}>Settle Won</button>
+                    <button className={btnGhost + ' text-xs'} type="button" onClick={() => settleSelected('Lost')}>Settle Lost</button>
+                    <span className="flex items-center gap-1">
+                      <select className={input + ' w-auto text-xs py-1'} value={batchSport} onChange={e => setBatch(v => ({ ...v, sport: e.target.value, market: marketsFor(state, e.target.value)[0] }))} aria-label="Sport for the selected bets">
+                        {sportOptions.map(s => <option key={s} value={s}>{s}</option>)}
+                      </select>
+                      <select className={input + ' w-auto text-xs py-1'} value={batch.market ?? ''} onChange={e => setBatch(v => ({ ...v, market: e.target.value || undefined }))} aria-label="Market for the selected bets">
+                        <option value="">No market</option>
+                        {marketsFor(state, batchSport).map(m => <option key={m} value={m}>{m}</option>)}
+                      </select>
+                      <button className={btnGhost + ' text-xs'} type="button" onClick={setSelectedSport}>Set sport</button>
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <input className={input + ' w-28 text-xs py-1'} list="batch-tags" placeholder="Tag" value={batch.tag} onChange={e => setBatch(v => ({ ...v, tag: e.target.value }))} aria-label="Tag for the selected bets" />
+                      <datalist id="batch-tags">
+                        {tagOptions(batch.tag).map(t => <option key={t} value={t} />)}
+                      </datalist>
+                      <button className={btnGhost + ' text-xs'} type="button" disabled={!parseTags(batch.tag).length} onClick={tagSelected}>Add tag</button>
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <input className={input + ' w-auto text-xs py-1'} type="date" value={batch.date} onChange={e => setBatch(v => ({ ...v, date: e.target.value }))} aria-label="Date for the selected bets" />
+                      <button className={btnGhost + ' text-xs'} type="button" disabled={!batch.date} onClick={moveSelected}>Move date</button>
+                    </span>
+                    <button className="rounded-xl px-3 py-2 text-xs font-medium bg-rose-600 hover:bg-rose-700 text-white" type="button" onClick={deleteSelected}>Delete {selectedBets.length}</button>
+                  </div>
+                </div>
+              )}
               <div className="overflow-x-auto -mx-4 sm:mx-0">
                 <div className="min-w-[800px] sm:min-w-0">
                   <table className="w-full text-xs sm:text-sm">
                     <thead className="text-left text-slate-300 border-b border-slate-800 sticky top-0 bg-slate-900/60">
                       <tr>
+                        <th className="py-2 pr-3 w-6">
+                          <input type="checkbox" checked={allFilteredSelected} onChange={e => selectFiltered(e.target.checked)} aria-label="Select every bet matching the filter" />
+                        </th>
                         <th className="py-2 pr-3">Date</th>
                         <th className="py-2 pr-3">Bet</th>
                         <th className="py-2 pr-3">Sport</th>
-                        <th className="py-2 pr-3">Category</th>
+                        <th className="py-2 pr-3">Market</th>
                         <th className="py-2 pr-3">Stake</th>
                         <th className="py-2 pr-3">Odds</th>
                         <th className="py-2 pr-3">Status</th>
@@ -585,72 +2119,245 @@ export default function RollerBetsTracker() {
                     </thead>
                     <tbody>
                       {filteredBets.length === 0 && (
-                        <tr><td colSpan={8} className="py-6 text-center text-slate-400">No bets match your filter</td></tr>
+                        <tr><td colSpan={10} className="py-6 text-center text-slate-400">No bets match your filter</td></tr>
                       )}
                       {filteredBets.map(bet => {
                         const isEditing = editingId === bet.id;
                         const ret = effectiveReturn(bet);
+                        const running = remainingStake(bet);
                         return (
-                          <tr key={bet.id} className="border-b border-slate-800/80">
-                            <td className="py-2 pr-3 align-top whitespace-nowrap">{bet.date}</td>
-                            <td className="py-2 pr-3 align-top min-w-[240px]">{bet.description}</td>
-                            <td className="py-2 pr-3 align-top">{bet.sport}</td>
-                            <td className="py-2 pr-3 align-top">
-                              {isEditing && bet.sport === 'Football' ? (
-                                <select className={select} value={editVals.category ?? 'Result'} onChange={e => setEditVals(v => ({ ...v, category: e.target.value as FootballCategory }))}>
-                                  {(['Result', 'Double Chance', 'Goals', 'Corners', 'Other'] as FootballCategory[]).map(c => <option key={c} value={c}>{c}</option>)}
-                                </select>
-                              ) : (
-                                bet.sport === 'Football' ? (bet.category ?? 'Uncategorised') : 'N/A'
-                              )}
-                            </td>
-                            <td className="py-2 pr-3 align-top">
-                              {isEditing ? (
-                                <input className={input} type="number" step="0.01" min="0" value={editVals.stake} onChange={e => setEditVals(v => ({ ...v, stake: e.target.value }))} />
-                              ) : currency.format(bet.stake)}
-                            </td>
-                            <td className="py-2 pr-3 align-top">
-                              {isEditing ? (
-                                <input className={input} type="number" step="0.01" min="1.01" value={editVals.oddsDecimal} onChange={e => setEditVals(v => ({ ...v, oddsDecimal: e.target.value }))} />
-                              ) : bet.oddsDecimal.toFixed(2)}
-                            </td>
-                            <td className="py-2 pr-3 align-top">
-                              {isEditing ? (
-                                <select className={select} value={editVals.status} onChange={e => setEditVals(v => ({ ...v, status: e.target.value as BetStatus }))}>
-                                  <option>Pending</option>
-                                  <option>Won</option>
-                                  <option>Lost</option>
-                                </select>
-                              ) : (
-                                <span className={
-                                  'inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ' +
-                                  (bet.status === 'Pending' ? 'bg-slate-700/70' : bet.status === 'Won' ? 'bg-emerald-600/70' : 'bg-rose-600/70')
-                                }>
-                                  {bet.status}
-                                </span>
-                              )}
-                            </td>
-                            <td className="py-2 pr-3 align-top">
-                              {isEditing ? (
-                                <input className={input} type="number" step="0.01" min="0" value={editVals.returnOverride ?? ''} onChange={e => setEditVals(v => ({ ...v, returnOverride: e.target.value }))} placeholder={defaultReturn({ ...bet, status: editVals.status })?.toString() ?? ''} />
-                              ) : (
-                                ret === null ? 'N/A' : currency.format(ret)
-                              )}
-                            </td>
-                            <td className="py-2 pr-3 align-top text-right whitespace-nowrap">
-                              {isEditing ? (
-                                <div className="flex gap-2 justify-end">
-                                  <button className={btn} onClick={() => saveEdit(bet.id)}>Save</button>
-                                  <button className={btnGhost} onClick={() => setEditingId(null)}>Cancel</button>
-                                </div>
-                              ) : (
-                                <div className="flex gap-2 justify-end">
-                                  <button className={btnGhost} onClick={() => beginEdit(bet)}>Edit</button>
-                                  <button className="rounded-xl px-3 py-2 text-sm font-medium bg-rose-600 hover:bg-rose-700 text-white" onClick={() => deleteBet(bet.id)}>Delete</button>
-                                </div>
-                              )}
-                            </td>
-                          </tr>
+                          <React.Fragment key={bet.id}>
+                            <tr className={'border-b border-slate-800/80' + (selected.has(bet.id) ? ' bg-indigo-500/10' : '')}>
+                              <td className="py-2 pr-3 align-top">
+                                <input type="checkbox" checked={selected.has(bet.id)} onChange={() => toggleSelected(bet.id)} aria-label={`Select ${bet.description}`} />
+                              </td>
+                              <td className="py-2 pr-3 align-top whitespace-nowrap">{bet.date}</td>
+                              <td className="py-2 pr-3 align-top min-w-[240px]">
+                                {bet.description}
+                                {bet.legs && <span className="ml-2 text-xs opacity-60">{multipleName(bet.legs.length)}</span>}
+                                {bet.eachWay && <span className="ml-2 text-xs opacity-60">EW 1/{Math.round(1 / bet.eachWay.placeFraction)}, {bet.eachWay.places} places</span>}
+                                {bet.accountId && <span className="ml-2 text-xs opacity-60">{accounts.find(a => a.id === bet.accountId)?.name}</span>}
+                                {bet.betRef && <span className="ml-2 text-xs opacity-60">ref {bet.betRef}</span>}
+                                {!isCashStake(bet) && <span className="ml-2 text-xs px-1.5 py-0.5 rounded-md bg-amber-600/40">{bet.stakeType}</span>}
+                                {bet.promotionId && <span className="ml-2 text-xs opacity-60">{promotions.find(p => p.id === bet.promotionId)?.name}</span>}
+                                {!isEditing && bet.tags?.map(t => <span key={t} className="ml-2 text-xs px-1.5 py-0.5 rounded-md bg-indigo-600/30">{t}</span>)}
+                                {!isEditing && (bet.competition || bet.home || bet.away || bet.kickoff) && (
+                                  <div className="mt-1 text-xs opacity-70">
+                                    {[bet.competition, fixture(bet), bet.kickoff?.replace('T', ' ')].filter(Boolean).join(' · ')}
+                                    {bet.status === 'Pending' && bet.kickoff && bet.kickoff <= nowLocal && (
+                                      <span className="ml-2 px-1.5 py-0.5 rounded-md bg-amber-600/40">started, due to settle</span>
+                                    )}
+                                  </div>
+                                )}
+                                {isEditing && !bet.legs && (
+                                  <div className="mt-1 grid grid-cols-2 gap-1">
+                                    <input className={input + ' col-span-2'} list="event-competitions" placeholder="Competition" value={editVals.competition} onChange={e => setEditVals(v => ({ ...v, competition: e.target.value }))} aria-label="Competition" />
+                                    <input className={input} list="event-teams" placeholder="Home or player" value={editVals.home} onChange={e => setEditVals(v => ({ ...v, home: e.target.value }))} aria-label="Home or player" />
+                                    <input className={input} list="event-teams" placeholder="Away or opponent" value={editVals.away} onChange={e => setEditVals(v => ({ ...v, away: e.target.value }))} aria-label="Away or opponent" />
+                                    <input className={input + ' col-span-2'} type="datetime-local" value={editVals.kickoff} onChange={e => setEditVals(v => ({ ...v, kickoff: e.target.value }))} aria-label="Kickoff" />
+                                  </div>
+                                )}
+                                {bet.cashOuts && (
+                                  <ul className="mt-1 space-y-1 text-xs opacity-80">
+                                    {bet.cashOuts.map(c => (
+                                      <li key={c.id} className="flex items-center gap-2">
+                                        <span>
+                                          Cashed out {money(c.amount, betCurrency(bet))} for {money(c.stake, betCurrency(bet))} stake
+                                          <span className="opacity-60"> {c.at.slice(0, 16).replace('T', ' ')}</span>
+                                        </span>
+                                        <button className="opacity-60 hover:opacity-100" type="button" onClick={() => removeCashOut(bet.id, c.id)} aria-label="Remove cash out">×</button>
+                                      </li>
+                                    ))}
+                                  </ul>
+                                )}
+                                {chainStepById.has(bet.id) && (
+                                  <span className="ml-2 text-xs opacity-60">step {chainStepById.get(bet.id)}</span>
+                                )}
+                                {bet.legs && (
+                                  <ul className="mt-1 space-y-1 text-xs">
+                                    {bet.legs.map(leg => (
+                                      <li key={leg.id} className="flex items-center gap-2">
+                                        <select
+                                          className="rounded-lg bg-slate-900/50 border border-slate-700 px-1 py-0.5 text-xs"
+                                          value={leg.status}
+                                          onChange={e => setLegStatus(bet.id, leg.id, e.target.value as LegStatus)}
+                                        >
+                                          {LEG_STATUSES.map(st => <option key={st} value={st}>{st}</option>)}
+                                        </select>
+                                        <span className={leg.status === 'Void' ? 'line-through opacity-60' : 'opacity-80'}>
+                                          {leg.description} @ {fmtOdds(leg.oddsDecimal)}
+                                          {` (${[leg.sport, leg.market].filter(Boolean).join(' · ')})`}
+                                        </span>
+                                      </li>
+                                    ))}
+                                  </ul>
+                                )}
+                              </td>
+                              <td className="py-2 pr-3 align-top">
+                                {isEditing && !bet.legs ? (
+                                  <select className={select} value={editVals.sport} onChange={e => setEditVals(v => ({ ...v, sport: e.target.value, market: marketsFor(state, e.target.value)[0] }))}>
+                                    {sportOptions.map(s => <option key={s} value={s}>{s}</option>)}
+                                  </select>
+                                ) : bet.sport}
+                              </td>
+                              <td className="py-2 pr-3 align-top">
+                                {isEditing ? (
+                                  <div className="space-y-1">
+                                    {!bet.legs && (
+                                      <select className={select} value={editVals.market ?? ''} onChange={e => setEditVals(v => ({ ...v, market: e.target.value || undefined }))} aria-label="Market">
+                                        <option value="">No market</option>
+                                        {/* Keep a market that was since removed from the sport */}
+                                        {Array.from(new Set([...marketsFor(state, editVals.sport), ...(editVals.market ? [editVals.market] : [])])).map(m => <option key={m} value={m}>{m}</option>)}
+                                      </select>
+                                    )}
+                                    <input className={input} list={`tags-${bet.id}`} placeholder="Tags" value={editVals.tags} onChange={e => setEditVals(v => ({ ...v, tags: e.target.value }))} aria-label="Tags" />
+                                    <datalist id={`tags-${bet.id}`}>
+                                      {tagOptions(editVals.tags).map(t => <option key={t} value={t} />)}
+                                    </datalist>
+                                  </div>
+                                ) : (
+                                  bet.market ?? <span className="opacity-60">None</span>
+                                )}
+                              </td>
+                              <td className="py-2 pr-3 align-top">
+                                {isEditing ? (
+                                  <div className="space-y-1">
+                                    <input className={input} type="number" step="0.01" min="0" value={editVals.stake} onChange={e => setEditVals(v => ({ ...v, stake: e.target.value }))} />
+                                    <select className={select} value={editVals.stakeType} onChange={e => setEditVals(v => ({ ...v, stakeType: e.target.value as StakeType }))} aria-label="Stake type">
+                                      {STAKE_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                                    </select>
+                                    <select className={select} value={editVals.currency} onChange={e => setEditVals(v => ({ ...v, currency: e.target.value as CurrencyCode }))} aria-label="Currency">
+                                      {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+                                    </select>
+                                    {accounts.length > 0 && (
+                                      <select className={select} value={editVals.accountId ?? ''} onChange={e => setEditVals(v => ({ ...v, accountId: e.target.value || undefined }))} aria-label="Account">
+                                        <option value="">No account</option>
+                                        {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                                      </select>
+                                    )}
+                                  </div>
+                                ) : (
+                                  <>
+                                    {money(bet.stake, betCurrency(bet))}
+                                    {betCurrency(bet) !== base && <div className="text-xs opacity-60">{money(inBaseCurrency(bet, state).stake)}</div>}
+                                    {bet.cashOuts?.length ? <div className="text-xs opacity-60">{money(running, betCurrency(bet))} running</div> : null}
+                                  </>
+                                )}
+                              </td>
+                              <td className="py-2 pr-3 align-top">
+                                {isEditing ? (
+                                  <div className="space-y-1">
+                                    {!bet.legs && <input className={input} inputMode="decimal" value={editVals.odds} onChange={e => setEditVals(v => ({ ...v, odds: e.target.value }))} title={oddsHint(editVals.odds)} />}
+                                    <input className={input} inputMode="decimal" placeholder="Closing" value={editVals.closingOdds} onChange={e => setEditVals(v => ({ ...v, closingOdds: e.target.value }))} title={`Closing odds. ${oddsHint(editVals.closingOdds)}`} />
+                                  </div>
+                                ) : (
+                                  <>
+                                    {fmtOdds(bet.oddsDecimal)}
+                                    {bet.closingOdds && (
+                                      <div className={'text-xs ' + ((closingLineValue(bet) ?? 0) > 0 ? 'text-emerald-400' : 'opacity-60')} title="Closing odds and closing line value">
+                                        close {fmtOdds(bet.closingOdds)} ({clvFmt.format(closingLineValue(bet) ?? 0)})
+                                      </div>
+                                    )}
+                                  </>
+                                )}
+                              </td>
+                              <td className="py-2 pr-3 align-top">
+                                {isEditing && !bet.legs ? (
+                                  <select className={select} value={editVals.status} onChange={e => setEditVals(v => ({ ...v, status: e.target.value as BetStatus }))}>
+                                    {BET_STATUSES.filter(s => s !== 'Placed' || bet.eachWay).map(s => <option key={s}>{s}</option>)}
+                                  </select>
+                                ) : (
+                                  <span className={
+                                    'inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ' +
+                                    STATUS_BADGE[bet.status]
+                                  }>
+                                    {bet.status}
+                                  </span>
+                                )}
+                              </td>
+                              <td className="py-2 pr-3 align-top">
+                                {isEditing ? (
+                                  <input className={input} type="number" step="0.01" min="0" value={editVals.returnOverride ?? ''} onChange={e => setEditVals(v => ({ ...v, returnOverride: e.target.value }))} placeholder={defaultReturn({ ...bet, status: editVals.status })?.toString() ?? ''} />
+                                ) : (
+                                  ret === null ? 'N/A' : money(ret, betCurrency(bet))
+                                )}
+                              </td>
+                              <td className="py-2 pr-3 align-top text-right whitespace-nowrap">
+                                {isEditing ? (
+                                  <div className="flex gap-2 justify-end">
+                                    <button className={btn} onClick={() => saveEdit(bet.id)}>Save</button>
+                                    <button className={btnGhost} onClick={() => { setEditingId(null); setEditClash(null); }}>Cancel</button>
+                                  </div>
+                                ) : (
+                                  <div className="flex gap-2 justify-end">
+                                    {isBetSettled(bet) && (effectiveReturn(bet) ?? 0) > 0 && !rolledIds.has(bet.id) && (
+                                      <button className={btnGhost} onClick={() => rollForward(bet)}>Roll forward</button>
+                                    )}
+                                    {!isSettled(bet.status) && running > 0 && (
+                                      <button className={btnGhost} onClick={() => beginCashOut(bet)}>Cash out</button>
+                                    )}
+                                    <button className={btnGhost} onClick={() => beginEdit(bet)}>Edit</button>
+                                    {otherProfiles.length > 0 && (
+                                      <select
+                                        className={btnGhost}
+                                        value=""
+                                        onChange={e => { const [mode, to] = e.target.value.split(':'); transferBets([bet], to, mode as 'copy' | 'move'); }}
+                                        aria-label="Copy or move to another profile"
+                                      >
+                                        <option value="">To profile…</option>
+                                        {otherProfiles.flatMap(p => [
+                                          <option key={`copy:${p.id}`} value={`copy:${p.id}`}>Copy to {p.name}</option>,
+                                          <option key={`move:${p.id}`} value={`move:${p.id}`}>Move to {p.name}</option>,
+                                        ])}
+                                      </select>
+                                    )}
+                                    <button className={btnGhost} onClick={() => setHistoryId(id => (id === bet.id ? null : bet.id))}>History</button>
+                                    <button className="rounded-xl px-3 py-2 text-sm font-medium bg-rose-600 hover:bg-rose-700 text-white" onClick={() => deleteBet(bet.id)}>Delete</button>
+                                  </div>
+                                )}
+                              </td>
+                            </tr>
+                            {cashOutDraft?.betId === bet.id && (
+                              <tr className="border-b border-slate-800/80">
+                                <td colSpan={10} className="py-2">
+                                  <div className="flex flex-wrap items-end justify-end gap-2">
+                                    <div>
+                                      <label className="text-xs opacity-80">Cash out amount ({currencySymbol(betCurrency(bet))})</label>
+                                      <input className={input} type="number" step="0.01" min="0" value={cashOutDraft.amount} onChange={e => setCashOutDraft(d => d && { ...d, amount: e.target.value })} autoFocus />
+                                    </div>
+                                    <div>
+                                      <label className="text-xs opacity-80">Stake released ({currencySymbol(betCurrency(bet))}), {money(running, betCurrency(bet))} is full</label>
+                                      <input className={input} type="number" step="0.01" min="0.01" max={running} value={cashOutDraft.stake} onChange={e => setCashOutDraft(d => d && { ...d, stake: e.target.value })} />
+                                    </div>
+                                    <button className={btn} type="button" disabled={!cashOutValid} onClick={saveCashOut}>Save</button>
+                                    <button className={btnGhost} type="button" onClick={() => setCashOutDraft(null)}>Cancel</button>
+                                  </div>
+                                </td>
+                              </tr>
+                            )}
+                            {historyId === bet.id && (
+                              <tr className="border-b border-slate-800/80">
+                                <td colSpan={10} className="py-2">
+                                  {historyEvents.length === 0 ? (
+                                    <p className="text-xs opacity-70">No changes recorded in this browser yet.</p>
+                                  ) : (
+                                    <ul className="space-y-1 text-xs">
+                                      {historyEvents.map(e => {
+                                        const changes = fieldChanges(e);
+                                        return (
+                                          <li key={e.id} className="flex flex-wrap gap-x-3">
+                                            <span className="opacity-60 tabular-nums">{e.at.slice(0, 16).replace('T', ' ')}</span>
+                                            <span className="font-medium">{e.kind === 'create' ? 'Created' : e.kind === 'delete' ? 'Deleted' : e.kind === 'settle' ? 'Settled' : 'Edited'}{e.via ? ` (${e.via})` : ''}</span>
+                                            <span className="opacity-80">{changes.length ? changes.map(c => showChange(bet, c)).join(', ') : e.kind === 'edit' ? 'details only' : ''}</span>
+                                          </li>
+                                        );
+                                      })}
+                                    </ul>
+                                  )}
+                                </td>
+                              </tr>
+                            )}
+                          </React.Fragment>
                         );
                       })}
                     </tbody>
@@ -659,11 +2366,11 @@ export default function RollerBetsTracker() {
               </div>
             </div>
 
-            {lastDeleted && (
+            {deleted && history.topStep === deleted.step && (
               <div className="fixed bottom-4 left-1/2 -translate-x-1/2 bg-slate-900/90 text-slate-100 border border-slate-700 rounded-xl px-4 py-3 shadow-lg">
                 <div className="flex items-center gap-3">
-                  <span className="text-sm">Bet deleted</span>
-                  <button className={btnGhost} onClick={undoDelete}>Undo</button>
+                  <span className="text-sm">{deleted.count === 1 ? 'Bet deleted' : `${deleted.count} bets deleted`}</span>
+                  <button className={btnGhost} onClick={history.undo}>Undo</button>
                 </div>
               </div>
             )}
@@ -674,7 +2381,7 @@ export default function RollerBetsTracker() {
               </div>
             )}
 
-            <footer className="text-center text-xs opacity-60 pt-4 pb-2">Made for quick rollers. Data is saved only in your browser.</footer>
+            <footer className="text-center text-xs opacity-60 pt-4 pb-2">Made for quick rollers. {STORAGE_MODE === 'local' ? 'Data is saved only in your browser.' : `Data is saved on the server and cached in your browser (${sync.status}).`}</footer>
           </div>
         )}
       </div>
@@ -0,0 +1,153 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { formatOdds, parseOdds } from '@/lib/odds';
+import { ParsedSlip, parseSlip, SlipDefaults, slipBets } from '@/lib/slips';
+import { SAMPLE_SLIPS } from '@/lib/slipSamples';
+import { AppState, Bet } from '@/lib/types';
+
+// Turns a bet confirmation pasted from an email or a bookmaker app into bets. What was read can be corrected
+// before adding, and lines nothing was taken from are highlighted.
+export default function PasteSlipDialog({ state, bets, defaults, onAdd, onClose }: {
+  state: AppState;
+  bets: Bet[];
+  defaults: SlipDefaults;
+  onAdd: (bets: Bet[]) => void;
+  onClose: () => void;
+}) {
+  const [text, setText] = useState('');
+  const [slip, setSlip] = useState<ParsedSlip | null>(null);
+  const [stake, setStake] = useState('');
+  // Odds as typed while correcting, by selection
+  const [odds, setOdds] = useState<string[]>([]);
+
+  const input = 'w-full rounded-xl bg-slate-900/50 border border-slate-700 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500';
+  const btn = 'rounded-xl px-4 py-2 text-sm font-medium bg-indigo-500 hover:bg-indigo-600 text-white disabled:opacity-50';
+  const btnGhost = 'rounded-xl px-3 py-2 text-sm font-medium bg-slate-800/60 hover:bg-slate-700/60 border border-slate-700';
+  const oddsFormat = state.oddsFormat ?? 'decimal';
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  function read(raw = text) {
+    const parsed = parseSlip(raw);
+    setSlip(parsed);
+    setStake(parsed.stake !== undefined ? parsed.stake.toFixed(2) : '');
+    setOdds(parsed.selections.map(s => formatOdds(s.odds, oddsFormat)));
+  }
+
+  function trySample(i: number) {
+    const sample = SAMPLE_SLIPS[i];
+    if (!sample) return;
+    setText(sample.text);
+    read(sample.text);
+  }
+
+  function editSelection(i: number, description: string) {
+    setSlip(s => s && { ...s, selections: s.selections.map((sel, j) => (j === i ? { ...sel, description } : sel)) });
+  }
+
+  function removeSelection(i: number) {
+    setSlip(s => s && { ...s, selections: s.selections.filter((_, j) => j !== i), multiple: s.multiple && s.selections.length > 2 });
+    setOdds(o => o.filter((_, j) => j !== i));
+  }
+
+  const corrected = slip && {
+    ...slip,
+    selections: slip.selections.map((sel, i) => ({ ...sel, description: sel.description.trim(), odds: parseOdds(odds[i] ?? '') ?? 0 })),
+  };
+  const stakeValue = Number(stake);
+  const valid = !!corrected && corrected.selections.length > 0 && stakeValue > 0
+    && corrected.selections.every(sel => sel.description && sel.odds > 1);
+  // Pasting the same confirmation twice is easy to do
+  const duplicate = !!slip?.betRef && bets.some(b => b.betRef === slip.betRef);
+  const count = corrected ? (corrected.multiple ? 1 : corrected.selections.length) : 0;
+
+  function add() {
+    if (!corrected || !valid) return;
+    onAdd(slipBets(corrected, stakeValue, state, defaults));
+    onClose();
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center overflow-y-auto bg-black/60 p-4" role="dialog" aria-modal="true" aria-label="Paste slip">
+      <div className="w-full max-w-2xl rounded-2xl p-4 bg-slate-900 border border-slate-800 shadow-lg space-y-3">
+        <div className="flex items-center justify-between gap-3">
+          <div className="text-sm font-medium">Paste slip</div>
+          <div className="flex items-center gap-2">
+            <select className={input + ' w-auto text-xs py-1'} value="" onChange={e => trySample(Number(e.target.value))} aria-label="Try a sample">
+              <option value="" disabled>Try a sample</option>
+              {SAMPLE_SLIPS.map((s, i) => <option key={s.name} value={i}>{s.name}</option>)}
+            </select>
+            <button className="opacity-60 hover:opacity-100" type="button" onClick={onClose} aria-label="Close">×</button>
+          </div>
+        </div>
+        <textarea
+          className={input + ' h-40 font-mono text-xs'}
+          placeholder="Paste the confirmation email or the text the bookmaker's app shares"
+          value={text}
+          onChange={e => { setText(e.target.value); setSlip(null); }}
+        />
+        <div className="flex justify-end">
+          <button className={btnGhost} type="button" disabled={!text.trim()} onClick={() => read()}>Read slip</button>
+        </div>
+
+        {slip && (
+          <>
+            <div className="text-xs opacity-80">
+              Read as {slip.layout}
+              {slip.betRef && <> · ref {slip.betRef}</>}
+              {slip.placedAt && <> · placed {slip.placedAt.replace('T', ' ')}</>}
+            </div>
+            {slip.lines.some(l => !l.read) && (
+              <div className="rounded-xl border border-slate-800 p-2 font-mono text-xs space-y-0.5">
+                {slip.lines.map((l, i) => (
+                  <div key={i} className={l.read ? 'opacity-50' : 'rounded bg-amber-600/30 px-1'} title={l.read ? undefined : 'Nothing was read from this line'}>
+                    {l.text || ' '}
+                  </div>
+                ))}
+              </div>
+            )}
+            {duplicate && (
+              <p className="text-xs rounded-xl border border-amber-700 bg-amber-950/40 px-3 py-2">A bet with reference {slip.betRef} is already in the ledger.</p>
+            )}
+            {slip.selections.length === 0 ? (
+              <p className="text-sm text-slate-400">No selections found. Each needs a price, after @ or as a fraction.</p>
+            ) : (
+              <ul className="space-y-2">
+                {slip.selections.map((sel, i) => (
+                  <li key={i} className="grid grid-cols-12 gap-2 items-center">
+                    <input className={input + ' col-span-7'} value={sel.description} onChange={e => editSelection(i, e.target.value)} aria-label={`Selection ${i + 1}`} />
+                    <input className={input + ' col-span-3'} inputMode="decimal" value={odds[i] ?? ''} onChange={e => setOdds(o => o.map((v, j) => (j === i ? e.target.value : v)))} aria-label={`Odds ${i + 1}`} />
+                    <button className="col-span-2 text-xs opacity-60 hover:opacity-100" type="button" onClick={() => removeSelection(i)}>Remove</button>
+                    {(sel.market || sel.event) && (
+                      <span className="col-span-12 -mt-1 text-xs opacity-60">{[sel.market, sel.event].filter(Boolean).join(' · ')}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex flex-wrap items-end justify-end gap-3">
+              {slip.selections.length > 1 && (
+                <select className={input + ' w-auto'} value={slip.multiple ? 'multiple' : 'singles'} onChange={e => setSlip(s => s && { ...s, multiple: e.target.value === 'multiple' })} aria-label="Bet type">
+                  <option value="singles">Singles</option>
+                  <option value="multiple">Accumulator</option>
+                </select>
+              )}
+              <label className="text-xs opacity-80">
+                {slip.multiple || slip.selections.length < 2 ? 'Stake' : 'Stake each'}
+                <input className={input + ' w-28'} type="number" step="0.01" min="0" value={stake} onChange={e => setStake(e.target.value)} />
+              </label>
+              <button className={btn} type="button" disabled={!valid} onClick={add}>
+                Add {count === 1 ? (slip.multiple ? 'accumulator' : 'bet') : `${count} bets`}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Profile } from '@/lib/types';
+
+const NEW = '__new';
+
+// Header control on both pages. Picking "New profile" asks for a name in place.
+export default function ProfileSwitcher({ profiles, activeId, onSwitch, onCreate }: {
+  profiles: Profile[];
+  activeId: string;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+}) {
+  const [naming, setNaming] = useState(false);
+  const [name, setName] = useState('');
+
+  const control = 'rounded-xl px-2 py-2 text-xs sm:text-sm bg-slate-800/60 border border-slate-700';
+
+  function create() {
+    if (!name.trim()) return;
+    onCreate(name.trim());
+    setName('');
+    setNaming(false);
+  }
+
+  if (naming) {
+    return (
+      <form className="flex items-center gap-1" onSubmit={e => { e.preventDefault(); create(); }}>
+        <input className={control + ' w-32'} autoFocus placeholder="Profile name" value={name} onChange={e => setName(e.target.value)} />
+        <button className={control + ' hover:bg-slate-700/60'} type="submit">Add</button>
+        <button className={control + ' hover:bg-slate-700/60'} type="button" onClick={() => setNaming(false)}>Cancel</button>
+      </form>
+    );
+  }
+
+  return (
+    <select
+      className={control}
+      value={activeId}
+      onChange={e => (e.target.value === NEW ? setNaming(true) : onSwitch(e.target.value))}
+      title="Profile"
+    >
+      {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+      <option value={NEW}>New profile…</option>
+    </select>
+  );
+}
@@ -0,0 +1,22 @@
+'use client';
+
+import { useEffect } from 'react';
+
+// Registers public/sw.js. Left out of development, where a cached page would hide every edit.
+export default function ServiceWorker() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+    navigator.serviceWorker.register('/sw.js')
+      .then(() => navigator.serviceWorker.ready)
+      .then(registration => {
+        // This page's scripts loaded before the worker was running, it caches them so the page also opens offline
+        const paths = performance.getEntriesByType('resource')
+          .map(entry => new URL(entry.name))
+          .filter(url => url.origin === location.origin && url.pathname.startsWith('/_next/static/'))
+          .map(url => url.pathname);
+        registration.active?.postMessage({ kind: 'cache-assets', paths });
+      })
+      .catch(e => console.error('Service worker registration failed', e));
+  }, []);
+  return null;
+}
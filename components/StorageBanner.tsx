@@ -0,0 +1,43 @@
+'use client';
+
+import React, { useState } from 'react';
+import { readQuarantine, StorageIssue } from '@/lib/storage';
+
+// Shown by both pages when loadLedger() or the server could not use everything it found in storage
+export default function StorageBanner({ issues, onDismiss }: { issues: StorageIssue[]; onDismiss: () => void }) {
+  const [open, setOpen] = useState(false);
+  if (!issues.length) return null;
+
+  const setAside = issues.filter(i => i.record !== undefined).length;
+
+  async function downloadQuarantine() {
+    const blob = new Blob([JSON.stringify(await readQuarantine(), null, 2)], { type: 'application/json' });
+    const a = document.createElement('a');
+    a.href = URL.createObjectURL(blob);
+    a.download = `roller-bets-quarantine-${new Date().toISOString().slice(0, 10)}.json`;
+    a.click();
+  }
+
+  const btnGhost = 'rounded-xl px-3 py-2 text-xs font-medium bg-slate-800/60 hover:bg-slate-700/60 border border-slate-700';
+
+  return (
+    <div className="rounded-2xl p-4 border border-amber-700 bg-amber-950/40 text-sm" role="alert">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <span>
+          Some saved data could not be loaded.
+          {setAside > 0 ? ` ${setAside} record${setAside === 1 ? ' was' : 's were'} set aside and left out of every statistic.` : ''}
+        </span>
+        <div className="flex gap-2">
+          <button className={btnGhost} type="button" onClick={() => setOpen(o => !o)}>{open ? 'Hide details' : 'Details'}</button>
+          {setAside > 0 && <button className={btnGhost} type="button" onClick={downloadQuarantine}>Download</button>}
+          <button className={btnGhost} type="button" onClick={onDismiss}>Dismiss</button>
+        </div>
+      </div>
+      {open && (
+        <ul className="mt-3 space-y-1 text-xs opacity-80 list-disc pl-5">
+          {issues.map((i, idx) => <li key={idx}><span className="opacity-60">{i.source}</span> {i.message}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+}
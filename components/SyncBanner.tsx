@@ -0,0 +1,45 @@
+'use client';
+
+import React from 'react';
+import { SyncConflict, SyncStatus } from '@/lib/sync';
+
+// Shown by both pages when the server cannot be reached or an edit clashed with one made elsewhere
+export default function SyncBanner({ status, conflicts, onKeepMine, onKeepTheirs, onRetry }: {
+  status: SyncStatus;
+  conflicts: SyncConflict[];
+  onKeepMine: (c: SyncConflict) => void;
+  onKeepTheirs: (c: SyncConflict) => void;
+  onRetry: () => void;
+}) {
+  if (status !== 'offline' && !conflicts.length) return null;
+
+  const btnGhost = 'rounded-xl px-3 py-2 text-xs font-medium bg-slate-800/60 hover:bg-slate-700/60 border border-slate-700';
+
+  function describe(c: SyncConflict) {
+    if (c.kind === 'state') return 'Settings were changed on another device while you changed them here.';
+    const name = `"${(c.mine ?? c.theirs)?.description}"`;
+    if (!c.theirs) return `${name} was deleted on another device after you edited it here.`;
+    if (!c.mine) return `${name} was edited on another device after you deleted it here.`;
+    return `${name} was edited on another device as well as here.`;
+  }
+
+  return (
+    <div className="rounded-2xl p-4 border border-amber-700 bg-amber-950/40 text-sm space-y-3" role="alert">
+      {status === 'offline' && (
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <span>Cannot reach the server. Changes are kept in this browser and sent once it is back.</span>
+          <button className={btnGhost} type="button" onClick={onRetry}>Retry</button>
+        </div>
+      )}
+      {conflicts.map(c => (
+        <div key={c.kind === 'bet' ? c.id : 'state'} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <span>{describe(c)} The other device&apos;s version is showing.</span>
+          <div className="flex gap-2">
+            <button className={btnGhost} type="button" onClick={() => onKeepMine(c)}>Keep mine</button>
+            <button className={btnGhost} type="button" onClick={() => onKeepTheirs(c)}>Keep theirs</button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
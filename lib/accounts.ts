@@ -0,0 +1,64 @@
+import { cashStake, effectiveReturn, isBetSettled } from './bets';
+import { baseCurrency, betCurrency, convert } from './currency';
+import { AccountTransaction, AppState, Bet, BookmakerAccount, CurrencyCode, ExchangeRate } from './types';
+
+// Balances come from the ledger plus every bet placed from the account
+
+export type Flow = { date: string; amount: number };
+
+export function transactionAmount(t: AccountTransaction) {
+  return t.kind === 'Withdrawal' ? -t.amount : t.amount;
+}
+
+// Cash stake leaves on the bet date, cash outs come back when taken and the rest of the return on settlement
+function betFlows(bet: Bet): Flow[] {
+  const flows: Flow[] = [{ date: bet.date, amount: -cashStake(bet) }];
+  const cashed = (bet.cashOuts ?? []).reduce((s, c) => s + c.amount, 0);
+  for (const c of bet.cashOuts ?? []) flows.push({ date: c.at.slice(0, 10), amount: c.amount });
+  if (isBetSettled(bet)) {
+    const rest = (effectiveReturn(bet) ?? 0) - cashed;
+    if (Math.abs(rest) > 0.005) flows.push({ date: bet.settledAt?.slice(0, 10) ?? bet.date, amount: rest });
+  }
+  return flows;
+}
+
+// Every movement on the account in its own currency, oldest first
+export function accountFlows(account: BookmakerAccount, bets: Bet[], rates: ExchangeRate[]): Flow[] {
+  const flows: Flow[] = account.transactions.map(t => ({ date: t.date, amount: transactionAmount(t) }));
+  for (const bet of bets) {
+    if (bet.accountId !== account.id) continue;
+    const from = betCurrency(bet);
+    for (const f of betFlows(bet)) flows.push({ date: f.date, amount: convert(f.amount, from, account.currency, f.date, rates) });
+  }
+  return flows.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Pending stakes are already out of the account, so this is what is free to bet with
+export function accountBalance(account: BookmakerAccount, bets: Bet[], rates: ExchangeRate[]) {
+  return +accountFlows(account, bets, rates).reduce((s, f) => s + f.amount, 0).toFixed(2);
+}
+
+export function totalBalance(accounts: BookmakerAccount[], bets: Bet[], state: AppState, on: string) {
+  const base = baseCurrency(state);
+  const total = accounts.reduce((s, a) => s + convert(accountBalance(a, bets, state.rates ?? []), a.currency, base, on, state.rates ?? []), 0);
+  return +total.toFixed(2);
+}
+
+// Running total of every account in the base currency, one point per day with movement
+export function bankrollSeries(accounts: BookmakerAccount[], bets: Bet[], state: AppState): { date: string; value: number }[] {
+  const base: CurrencyCode = baseCurrency(state);
+  const rates = state.rates ?? [];
+  const byDate = new Map<string, number>();
+  for (const a of accounts) {
+    for (const f of accountFlows(a, bets, rates)) {
+      byDate.set(f.date, (byDate.get(f.date) ?? 0) + convert(f.amount, a.currency, base, f.date, rates));
+    }
+  }
+  let running = 0;
+  return Array.from(byDate.entries())
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([date, amount]) => {
+      running += amount;
+      return { date, value: +running.toFixed(2) };
+    });
+}
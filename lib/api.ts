@@ -0,0 +1,65 @@
+import { AppState, Bet, Profile } from './types';
+import { QuarantineEntry } from './storage';
+
+// Request and response shapes of the /api routes, and the browser's calls to them
+
+// baseUpdatedAt is the server copy the client last saw, absent for a bet the server has never had
+export type BetChange = { bet: Bet; baseUpdatedAt?: string };
+export type BetDelete = { id: string; baseUpdatedAt: string };
+export type BetBatch = { upserts: BetChange[]; deletes: BetDelete[] };
+
+// The server's copy when a change was refused, null when it was deleted there
+export type BetConflict = { id: string; current: Bet | null };
+export type BetBatchResult = { saved: Bet[]; deleted: string[]; conflicts: BetConflict[] };
+
+export type StateResponse = {
+  state: AppState | null;
+  updatedAt: string | null;
+  quarantined?: QuarantineEntry[]; // records of the profile the server could not use, on GET only
+};
+export type StatePut = { state: AppState; baseUpdatedAt: string | null };
+
+export class ApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+async function call<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, { ...init, headers: { 'Content-Type': 'application/json' }, cache: 'no-store' });
+  const body = await res.json().catch(() => null);
+  if (!res.ok) throw new ApiError(res.status, body?.error ?? `Request failed with ${res.status}`);
+  return body as T;
+}
+
+// Every ledger call is for one profile
+const withProfile = (url: string, profileId: string) => `${url}?profile=${encodeURIComponent(profileId)}`;
+
+export function fetchBets(profileId: string) {
+  return call<{ bets: Bet[] }>(withProfile('/api/bets', profileId)).then(r => r.bets);
+}
+
+export function sendBetBatch(profileId: string, batch: BetBatch) {
+  return call<BetBatchResult>(withProfile('/api/bets', profileId), { method: 'PATCH', body: JSON.stringify(batch) });
+}
+
+export function fetchState(profileId: string) {
+  return call<StateResponse>(withProfile('/api/state', profileId));
+}
+
+// Resolves with the server's copy instead when someone else saved settings in between
+export async function putState(profileId: string, body: StatePut): Promise<{ ok: boolean } & StateResponse> {
+  const res = await fetch(withProfile('/api/state', profileId), { method: 'PUT', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body), cache: 'no-store' });
+  const data = await res.json().catch(() => null);
+  if (res.status === 409) return { ok: false, ...(data as StateResponse) };
+  if (!res.ok) throw new ApiError(res.status, data?.error ?? `Request failed with ${res.status}`);
+  return { ok: true, ...(data as StateResponse) };
+}
+
+export function fetchProfiles() {
+  return call<{ profiles: Profile[] }>('/api/profiles').then(r => r.profiles);
+}
+
+export function putProfiles(profiles: Profile[]) {
+  return call<{ profiles: Profile[] }>('/api/profiles', { method: 'PUT', body: JSON.stringify({ profiles }) }).then(r => r.profiles);
+}
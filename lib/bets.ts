@@ -0,0 +1,98 @@
+import { Bet, BetStatus, ChallengeRun, RunOutcome } from './types';
+
+// Settlement maths shared by the tracker and insights pages
+
+export function isSettled(s: BetStatus) { return s !== 'Pending'; }
+
+// Stake still riding on the original outcome after any cash outs
+export function remainingStake(bet: Bet) {
+  const released = (bet.cashOuts ?? []).reduce((s, c) => s + c.stake, 0);
+  return +Math.max(0, bet.stake - released).toFixed(2);
+}
+
+// A fully cashed out bet is settled for money purposes even while its market is still open
+export function isBetSettled(bet: Bet) {
+  return isSettled(bet.status) || (!!bet.cashOuts?.length && remainingStake(bet) === 0);
+}
+
+export function isCashStake(bet: Bet) {
+  return (bet.stakeType ?? 'Cash') === 'Cash';
+}
+
+// Free bets and bonus funds cost nothing, so they stay out of staked totals and cash ROI
+export function cashStake(bet: Bet) {
+  return isCashStake(bet) ? bet.stake : 0;
+}
+
+// How much of a settled bet counts towards win rate, and how much of that won.
+// Voids drop out, half results count as half a bet, and a placed each-way bet lost its win part.
+export function outcomeWeight(s: BetStatus): { settled: number; won: number } {
+  switch (s) {
+    case 'Won': return { settled: 1, won: 1 };
+    case 'Half Won': return { settled: 0.5, won: 0.5 };
+    case 'Half Lost': return { settled: 0.5, won: 0 };
+    case 'Lost':
+    case 'Placed': return { settled: 1, won: 0 };
+    default: return { settled: 0, won: 0 };
+  }
+}
+
+// Each-way place part pays a fraction of the win odds
+function placeOdds(bet: Bet) {
+  return bet.eachWay ? 1 + (bet.oddsDecimal - 1) * bet.eachWay.placeFraction : 1;
+}
+
+// Return as if the stake were cash, including any stake paid back
+function cashReturn(bet: Bet): number | null {
+  // An each-way stake is split evenly between the win and place parts
+  const unit = bet.eachWay ? bet.stake / 2 : bet.stake;
+  switch (bet.status) {
+    case 'Won': return bet.eachWay ? unit * bet.oddsDecimal + unit * placeOdds(bet) : bet.stake * bet.oddsDecimal;
+    case 'Placed': return bet.eachWay ? unit * placeOdds(bet) : 0;
+    case 'Half Won': return bet.stake / 2 * bet.oddsDecimal + bet.stake / 2;
+    case 'Half Lost': return bet.stake / 2;
+    case 'Void': return bet.stake;
+    case 'Lost': return 0;
+    default: return null;
+  }
+}
+
+// Part of the cash return that is stake coming back rather than winnings
+function stakeBack(bet: Bet) {
+  switch (bet.status) {
+    case 'Won':
+    case 'Half Won':
+    case 'Void': return bet.stake;
+    case 'Placed': return bet.eachWay ? bet.stake / 2 : 0;
+    case 'Half Lost': return bet.stake / 2;
+    default: return 0;
+  }
+}
+
+export function defaultReturn(bet: Bet): number | null {
+  const ret = cashReturn(bet);
+  if (ret === null) return null;
+  // Stake not returned, a free bet only pays its winnings
+  return +(bet.stakeType === 'Free bet' ? Math.max(0, ret - stakeBack(bet)) : ret).toFixed(2);
+}
+
+export function effectiveReturn(bet: Bet): number | null {
+  if (!isBetSettled(bet)) return null;
+  if (bet.returnOverride !== undefined && bet.returnOverride !== null) return +bet.returnOverride.toFixed(2);
+  if (bet.cashOuts?.length) {
+    const cashed = bet.cashOuts.reduce((s, c) => s + c.amount, 0);
+    const running = remainingStake(bet);
+    // The stake left running settles like the original bet, pro rata
+    const rest = running > 0 ? (defaultReturn(bet) ?? 0) * (running / bet.stake) : 0;
+    return +(cashed + rest).toFixed(2);
+  }
+  return defaultReturn(bet);
+}
+
+// A run busts on a loss that paid nothing back and hits once a settled step returns the starting stake plus the target
+export function runOutcome(run: ChallengeRun, steps: Bet[]): RunOutcome {
+  if (steps.some(b => b.status === 'Lost' && !effectiveReturn(b))) return 'Bust';
+  const last = steps[steps.length - 1];
+  if (last && isBetSettled(last) && (effectiveReturn(last) ?? 0) >= run.startStake + run.target) return 'Hit';
+  return run.abandonedAt ? 'Abandoned' : 'Running';
+}
@@ -0,0 +1,30 @@
+import { AppState, Bet, Profile } from './types';
+
+// Tells other tabs of this browser what was just saved, so they merge it in instead of overwriting it on their next save
+
+export type TabMessage =
+  | { kind: 'bets'; profileId: string; put: Bet[]; remove: string[] }
+  | { kind: 'state'; profileId: string; state: AppState }
+  | { kind: 'profiles'; profiles: Profile[] };
+
+// One channel per tab, a channel never hears its own messages, so a tab only hears the others
+let channel: BroadcastChannel | null = null;
+
+function open() {
+  if (typeof BroadcastChannel === 'undefined') return null;
+  channel ??= new BroadcastChannel('roller-bets');
+  return channel;
+}
+
+export function postToTabs(message: TabMessage) {
+  open()?.postMessage(message);
+}
+
+// Returns the unsubscribe
+export function listenToTabs(listener: (message: TabMessage) => void): () => void {
+  const ch = open();
+  if (!ch) return () => {};
+  const onMessage = (e: MessageEvent<TabMessage>) => listener(e.data);
+  ch.addEventListener('message', onMessage);
+  return () => ch.removeEventListener('message', onMessage);
+}
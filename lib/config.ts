@@ -0,0 +1,5 @@
+// Where the ledger lives. Server mode keeps it in the API's file store with the browser as a cache,
+// local mode never calls the API. Set NEXT_PUBLIC_STORAGE_MODE=local to stay offline.
+export type StorageMode = 'server' | 'local';
+
+export const STORAGE_MODE: StorageMode = process.env.NEXT_PUBLIC_STORAGE_MODE === 'local' ? 'local' : 'server';
@@ -0,0 +1,67 @@
+import { AppState, Bet, CurrencyCode, ExchangeRate } from './types';
+
+// Bets keep their native amounts, totals convert them into the base currency
+
+const formatters = new Map<CurrencyCode, Intl.NumberFormat>();
+
+export function formatMoney(amount: number, code: CurrencyCode = 'GBP') {
+  let f = formatters.get(code);
+  if (!f) {
+    f = new Intl.NumberFormat('en-GB', { style: 'currency', currency: code });
+    formatters.set(code, f);
+  }
+  return f.format(amount);
+}
+
+export function currencySymbol(code: CurrencyCode) {
+  return formatMoney(0, code).replace(/[\d.,\s]/g, '');
+}
+
+export function betCurrency(bet: Pick<Bet, 'currency'>): CurrencyCode {
+  return bet.currency ?? 'GBP';
+}
+
+export function baseCurrency(state: AppState): CurrencyCode {
+  return state.baseCurrency ?? 'GBP';
+}
+
+// Latest quote on or before the date, else the earliest one after it. A quote the other way round is inverted.
+export function rateOn(rates: ExchangeRate[], from: CurrencyCode, to: CurrencyCode, date: string): number | null {
+  if (from === to) return 1;
+  const quotes = rates
+    .filter(r => r.rate > 0 && ((r.from === from && r.to === to) || (r.from === to && r.to === from)))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  if (!quotes.length) return null;
+  const before = quotes.filter(r => r.date <= date);
+  const q = before.length ? before[before.length - 1] : quotes[0];
+  return q.from === from ? q.rate : 1 / q.rate;
+}
+
+// Falls back to 1:1 when there is no quote, missingRates() tells the user
+export function convert(amount: number, from: CurrencyCode, to: CurrencyCode, date: string, rates: ExchangeRate[]) {
+  return amount * (rateOn(rates, from, to, date) ?? 1);
+}
+
+// Currencies used by bets that have no quote against the base, these are counted 1:1 until one is added
+export function missingRates(bets: Bet[], state: AppState): CurrencyCode[] {
+  const base = baseCurrency(state);
+  const used = new Set(bets.map(betCurrency));
+  return Array.from(used).filter(c => rateOn(state.rates ?? [], c, base, '9999-12-31') === null);
+}
+
+// Copy of the bet with every money field in the base currency at the bet date's rate, so the settlement maths works unchanged
+export function inBaseCurrency(bet: Bet, state: AppState): Bet {
+  const base = baseCurrency(state);
+  const from = betCurrency(bet);
+  if (from === base) return bet;
+  const rate = rateOn(state.rates ?? [], from, base, bet.date) ?? 1;
+  // Left unrounded so cash outs still release exactly the whole stake
+  const conv = (v: number) => v * rate;
+  return {
+    ...bet,
+    currency: base,
+    stake: conv(bet.stake),
+    returnOverride: bet.returnOverride === undefined ? undefined : conv(bet.returnOverride),
+    cashOuts: bet.cashOuts?.map(c => ({ ...c, amount: conv(c.amount), stake: conv(c.stake) })),
+  };
+}
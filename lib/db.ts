@@ -0,0 +1,178 @@
+import { Bet, BetEvent, BetStatus, DEFAULT_PROFILE } from './types';
+
+// IndexedDB access for the browser copy of the ledger. Bets are one record each, kept under the profile they
+// belong to and indexed for the filters. The audit trail has a store of its own, everything else sits in a small
+// key-value store.
+
+const DB_NAME = 'roller-bets';
+const DB_VERSION = 3;
+const BETS_STORE = 'bets';
+const META_STORE = 'meta';
+const EVENTS_STORE = 'events';
+
+// Settings, schema version and sync baseline are kept per profile, under `${key}:${profileId}`
+export type LedgerKey = 'state' | 'version' | 'synced';
+export type MetaKey = 'quarantine' | 'profiles' | 'activeProfile' | `${LedgerKey}:${string}`;
+
+export function ledgerKey(key: LedgerKey, profileId: string): MetaKey {
+  return `${key}:${profileId}`;
+}
+
+// Stored shape of a bet. The id is only unique within a profile, so a moved bet keeps it.
+type BetRecord = { profileId: string; bet: Bet };
+type EventRecord = { profileId: string; event: BetEvent };
+
+function createBetsStore(db: IDBDatabase) {
+  const bets = db.createObjectStore(BETS_STORE, { keyPath: ['profileId', 'bet.id'] });
+  bets.createIndex('date', ['profileId', 'bet.date']);
+  bets.createIndex('status', ['profileId', 'bet.status']);
+  // Sport then date answers the usual filter with one range
+  bets.createIndex('sport_date', ['profileId', 'bet.sport', 'bet.date']);
+  return bets;
+}
+
+function createEventsStore(db: IDBDatabase) {
+  const events = db.createObjectStore(EVENTS_STORE, { keyPath: ['profileId', 'event.id'] });
+  events.createIndex('bet', ['profileId', 'event.betId', 'event.at']);
+}
+
+// Version 1 had one ledger, it becomes the default profile
+function upgradeToProfiles(db: IDBDatabase, tx: IDBTransaction) {
+  const meta = tx.objectStore(META_STORE);
+  (['state', 'version', 'synced'] as const).forEach(key => {
+    meta.get(key).onsuccess = e => {
+      const value = (e.target as IDBRequest).result;
+      if (value === undefined) return;
+      meta.put(value, ledgerKey(key, DEFAULT_PROFILE.id));
+      meta.delete(key);
+    };
+  });
+  tx.objectStore(BETS_STORE).getAll().onsuccess = e => {
+    const rows = (e.target as IDBRequest<unknown[]>).result;
+    db.deleteObjectStore(BETS_STORE);
+    const bets = createBetsStore(db);
+    rows.forEach(bet => bets.put({ profileId: DEFAULT_PROFILE.id, bet }));
+  };
+}
+
+let opening: Promise<IDBDatabase> | null = null;
+
+export function openDb(): Promise<IDBDatabase> {
+  opening ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = e => {
+      const db = req.result;
+      if (e.oldVersion < 1) {
+        createBetsStore(db);
+        db.createObjectStore(META_STORE);
+      } else if (e.oldVersion < 2) {
+        upgradeToProfiles(db, req.transaction!);
+      }
+      if (e.oldVersion < 3) createEventsStore(db);
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      opening = null;
+      reject(req.error);
+    };
+  });
+  return opening;
+}
+
+function result<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function committed(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// Every key of a profile starts with its id, an array sorts after any string so this bounds them all
+function profileRange(profileId: string, from: unknown[] = [], to: unknown[] = [[]]) {
+  return IDBKeyRange.bound([profileId, ...from], [profileId, ...to]);
+}
+
+// -------- Bets --------
+// Raw records, the caller validates them
+export async function readAllBets(profileId: string): Promise<unknown[]> {
+  const db = await openDb();
+  const rows: BetRecord[] = await result(db.transaction(BETS_STORE).objectStore(BETS_STORE).getAll(profileRange(profileId)));
+  return rows.map(r => r.bet);
+}
+
+// Writes only what changed. `replace` clears the profile first, for migrations and first imports.
+export async function writeBets(profileId: string, put: Bet[], remove: string[], replace = false): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(BETS_STORE, 'readwrite');
+  const store = tx.objectStore(BETS_STORE);
+  if (replace) store.delete(profileRange(profileId));
+  remove.forEach(id => store.delete([profileId, id]));
+  put.forEach(bet => store.put({ profileId, bet } satisfies BetRecord));
+  return committed(tx);
+}
+
+export type BetQuery = { sport?: string; status?: BetStatus; from?: string; to?: string }; // dates are yyyy-mm-dd, inclusive
+
+// Picks the narrowest index for the filter, whatever it cannot cover is checked in memory. Sorted by date.
+export async function queryBets(profileId: string, q: BetQuery): Promise<Bet[]> {
+  const db = await openDb();
+  const store = db.transaction(BETS_STORE).objectStore(BETS_STORE);
+  const from = q.from ? [q.from] : [];
+  const to = q.to ? [q.to] : [[]];
+  let rows: BetRecord[];
+  if (q.sport) {
+    rows = await result(store.index('sport_date').getAll(profileRange(profileId, [q.sport, ...from], [q.sport, ...to])));
+  } else if (q.from || q.to) {
+    rows = await result(store.index('date').getAll(profileRange(profileId, from, to)));
+  } else if (q.status) {
+    rows = await result(store.index('status').getAll([profileId, q.status]));
+  } else {
+    rows = await result(store.index('date').getAll(profileRange(profileId)));
+  }
+  const bets = rows.map(r => r.bet);
+  return q.status ? bets.filter(b => b.status === q.status).sort((a, b) => a.date.localeCompare(b.date)) : bets;
+}
+
+// -------- Events --------
+export async function writeEvents(profileId: string, events: BetEvent[]): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(EVENTS_STORE, 'readwrite');
+  const store = tx.objectStore(EVENTS_STORE);
+  events.forEach(event => store.put({ profileId, event } satisfies EventRecord));
+  return committed(tx);
+}
+
+// Oldest first
+export async function readBetEvents(profileId: string, betId: string): Promise<BetEvent[]> {
+  const db = await openDb();
+  const index = db.transaction(EVENTS_STORE).objectStore(EVENTS_STORE).index('bet');
+  const rows: EventRecord[] = await result(index.getAll(profileRange(profileId, [betId], [betId, []])));
+  return rows.map(r => r.event);
+}
+
+// -------- Meta --------
+export async function readMeta<T>(key: MetaKey): Promise<T | undefined> {
+  const db = await openDb();
+  return result(db.transaction(META_STORE).objectStore(META_STORE).get(key));
+}
+
+export async function writeMeta(key: MetaKey, value: unknown): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put(value, key);
+  return committed(tx);
+}
+
+export async function deleteMeta(key: MetaKey): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).delete(key);
+  return committed(tx);
+}
@@ -0,0 +1,149 @@
+import { Dispatch, SetStateAction, useCallback, useEffect, useRef, useState } from 'react';
+import { isSettled } from './bets';
+import { writeEvents } from './db';
+import { Bet, BetEvent, BetEventKind } from './types';
+
+// Audit trail and undo for changes made on this page. Changes arriving from the server or another tab are
+// recorded where they were made, so they are applied without an event here.
+
+const uid = () => Math.random().toString(36).slice(2) + Date.now().toString(36);
+
+function eventKind(before: Bet | null, after: Bet | null): BetEventKind {
+  if (!before) return 'create';
+  if (!after) return 'delete';
+  return before.status !== after.status && isSettled(after.status) ? 'settle' : 'edit';
+}
+
+// Compared by identity, like saveBets: a bet nobody touched is the same object in both lists
+export function betEvents(prev: Bet[], next: Bet[], via?: BetEvent['via']): BetEvent[] {
+  const at = new Date().toISOString();
+  const before = new Map(prev.map(b => [b.id, b]));
+  const events: BetEvent[] = [];
+  const make = (b: Bet | null, a: Bet | null): BetEvent => ({ id: uid(), betId: (a ?? b)!.id, at, kind: eventKind(b, a), before: b, after: a, via });
+  for (const a of next) {
+    const b = before.get(a.id) ?? null;
+    before.delete(a.id);
+    if (b !== a) events.push(make(b, a));
+  }
+  before.forEach(b => events.push(make(b, null)));
+  return events;
+}
+
+// Records the difference between two versions of the list, for changes made outside the hook such as imports
+export function recordChange(profileId: string, prev: Bet[], next: Bet[], via?: BetEvent['via']) {
+  const events = betEvents(prev, next, via);
+  if (events.length) writeEvents(profileId, events).catch(e => console.error('Could not save the audit trail', e));
+  return events;
+}
+
+// -------- History panel --------
+export type FieldChange = { field: 'stake' | 'oddsDecimal' | 'closingOdds' | 'status' | 'returnOverride' | 'cashOuts' | 'stakeType'; from: unknown; to: unknown };
+
+const TRACKED: FieldChange['field'][] = ['stake', 'oddsDecimal', 'closingOdds', 'status', 'returnOverride', 'cashOuts', 'stakeType'];
+
+// What an event changed among the fields the panel shows. Cash outs compare by count.
+export function fieldChanges(event: BetEvent): FieldChange[] {
+  const { before, after } = event;
+  if (!before || !after) return [];
+  return TRACKED.flatMap(field => {
+    const from = field === 'cashOuts' ? before.cashOuts?.length ?? 0 : before[field];
+    const to = field === 'cashOuts' ? after.cashOuts?.length ?? 0 : after[field];
+    return from === to ? [] : [{ field, from, to }];
+  });
+}
+
+// -------- Undo and redo --------
+type Step = { id: string; events: BetEvent[] };
+
+type Options = {
+  ready: boolean;
+  profileId: string;
+  bets: Bet[];
+  setBets: Dispatch<SetStateAction<Bet[]>>;
+};
+
+// Undo reverts a step's events and the events that makes become the redo step, and the other way round.
+// A bet changed since, by a later step or elsewhere, is left alone.
+function revert(list: Bet[], events: BetEvent[]) {
+  const now = new Date().toISOString();
+  const byId = new Map(list.map(b => [b.id, b]));
+  for (const e of [...events].reverse()) {
+    const current = byId.get(e.betId);
+    if (current?.updatedAt !== e.after?.updatedAt) continue;
+    // A fresh updatedAt so other tabs and the server take the restored copy as the newest
+    if (e.before) byId.set(e.betId, { ...e.before, updatedAt: now });
+    else byId.delete(e.betId);
+  }
+  const kept = list.filter(b => byId.has(b.id)).map(b => byId.get(b.id)!);
+  const ids = new Set(list.map(b => b.id));
+  return [...Array.from(byId.values()).filter(b => !ids.has(b.id)), ...kept];
+}
+
+function isTyping(target: EventTarget | null) {
+  const el = target as HTMLElement | null;
+  return !!el && (el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName));
+}
+
+export function useBetHistory({ ready, profileId, bets, setBets }: Options) {
+  const latest = useRef(bets);
+  latest.current = bets;
+  const undoStack = useRef<Step[]>([]);
+  const redoStack = useRef<Step[]>([]);
+  // Mirrors the stacks for rendering
+  const [depth, setDepth] = useState({ undo: 0, redo: 0, top: null as string | null });
+
+  const sync = useCallback(() => {
+    setDepth({ undo: undoStack.current.length, redo: redoStack.current.length, top: undoStack.current.at(-1)?.id ?? null });
+  }, []);
+
+  const apply = useCallback((next: Bet[], via?: BetEvent['via']) => {
+    const events = recordChange(profileId, latest.current, next, via);
+    latest.current = next;
+    setBets(next);
+    return events;
+  }, [profileId, setBets]);
+
+  // Every change the user makes to bets goes through here, the id names the undo step it made
+  const change = useCallback((update: (list: Bet[]) => Bet[]): string | null => {
+    const events = apply(update(latest.current));
+    if (!events.length) return null;
+    const step = { id: uid(), events };
+    undoStack.current.push(step);
+    redoStack.current = [];
+    sync();
+    return step.id;
+  }, [apply, sync]);
+
+  const undo = useCallback(() => {
+    const step = undoStack.current.pop();
+    if (!step) return;
+    const events = apply(revert(latest.current, step.events), 'undo');
+    if (events.length) redoStack.current.push({ id: step.id, events });
+    sync();
+  }, [apply, sync]);
+
+  const redo = useCallback(() => {
+    const step = redoStack.current.pop();
+    if (!step) return;
+    const events = apply(revert(latest.current, step.events), 'redo');
+    if (events.length) undoStack.current.push({ id: step.id, events });
+    sync();
+  }, [apply, sync]);
+
+  // Ctrl or Cmd with Z, Shift for redo or Ctrl+Y. Inside a field the browser's own text undo wins.
+  useEffect(() => {
+    if (!ready) return;
+    function onKey(e: KeyboardEvent) {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTyping(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) undo();
+      else if ((key === 'z' && e.shiftKey) || key === 'y') redo();
+      else return;
+      e.preventDefault();
+    }
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [ready, undo, redo]);
+
+  return { change, undo, redo, canUndo: depth.undo > 0, canRedo: depth.redo > 0, topStep: depth.top };
+}
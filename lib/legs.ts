@@ -0,0 +1,40 @@
+import { Bet, BetLeg, BetStatus } from './types';
+
+// Product of the legs still in play. A void leg settles at odds of 1, so it drops out.
+export function legsOdds(legs: BetLeg[]): number {
+  return +legs.reduce((acc, l) => (l.status === 'Void' ? acc : acc * l.oddsDecimal), 1).toFixed(3);
+}
+
+// A multiple loses on its first losing leg and wins once every other leg is decided. All void is a void.
+export function legsStatus(legs: BetLeg[]): BetStatus {
+  if (legs.some(l => l.status === 'Lost')) return 'Lost';
+  if (legs.every(l => l.status === 'Void')) return 'Void';
+  if (legs.every(l => l.status === 'Won' || l.status === 'Void')) return 'Won';
+  return 'Pending';
+}
+
+export function multipleName(legCount: number) {
+  if (legCount === 2) return 'Double';
+  if (legCount === 3) return 'Treble';
+  return `${legCount}-fold`;
+}
+
+// Re-derives odds, status, sport and market of a multiple from its legs
+export function applyLegs(bet: Bet, legs: BetLeg[], now: string): Bet {
+  const status = legsStatus(legs);
+  const sports = new Set(legs.map(l => l.sport));
+  const sport = sports.size === 1 ? legs[0].sport : 'Other';
+  const markets = new Set(legs.map(l => l.market));
+  const market = sports.size === 1 && markets.size === 1 ? legs[0].market : undefined;
+  const wasSettled = bet.status !== 'Pending';
+  return {
+    ...bet,
+    legs,
+    sport,
+    market,
+    oddsDecimal: legsOdds(legs),
+    status,
+    settledAt: status === 'Pending' ? undefined : wasSettled && bet.status === status ? bet.settledAt ?? now : now,
+    updatedAt: now,
+  };
+}
@@ -0,0 +1,66 @@
+import { OddsFormat } from './types';
+
+// Odds are always stored as decimal, these convert for input and display
+
+// Prices UK bookmakers actually quote, checked before falling back to the simplest fraction
+const COMMON_FRACTIONS: [number, number][] = [
+  [1, 10], [1, 8], [1, 7], [1, 6], [1, 5], [2, 9], [1, 4], [2, 7], [3, 10], [1, 3], [4, 11], [2, 5], [4, 9], [1, 2],
+  [8, 15], [4, 7], [8, 13], [4, 6], [8, 11], [4, 5], [5, 6], [10, 11], [1, 1], [11, 10], [6, 5], [5, 4], [11, 8],
+  [6, 4], [13, 8], [7, 4], [15, 8], [2, 1], [9, 4], [5, 2], [11, 4], [3, 1], [100, 30], [7, 2], [4, 1], [9, 2],
+  [5, 1], [11, 2], [6, 1], [13, 2], [7, 1], [15, 2], [8, 1], [17, 2], [9, 1], [10, 1],
+];
+
+// Decimal (2.1), fractional (11/8, evens) or American (+150, -200), always returned as decimal
+export function parseOdds(raw: string): number | null {
+  const t = raw.trim().toLowerCase();
+  if (t === 'evs' || t === 'evens' || t === 'even') return 2;
+  const frac = t.match(/^(\d+(?:\.\d+)?)\s*[/-]\s*(\d+(?:\.\d+)?)$/);
+  if (frac) return Number(frac[2]) > 0 ? +(1 + Number(frac[1]) / Number(frac[2])).toFixed(3) : null;
+  const us = t.match(/^([+-])(\d+(?:\.\d+)?)$/);
+  if (us) {
+    const n = Number(us[2]);
+    if (n < 100) return null;
+    return +(us[1] === '+' ? 1 + n / 100 : 1 + 100 / n).toFixed(3);
+  }
+  const v = Number(t);
+  return t !== '' && Number.isFinite(v) ? +v.toFixed(3) : null;
+}
+
+function toFraction(decimal: number) {
+  const profit = decimal - 1;
+  if (profit <= 0) return '0/1';
+  if (Math.abs(profit - 1) < 0.005) return 'Evens';
+  // A quoted fraction first, then the simplest one, exact before close. Close is relative to the winnings so short
+  // prices are not rounded away. parseOdds keeps three decimals, so 1.67 is 4/6 but 1.01 is 1/100.
+  const close = (n: number, d: number, tolerance: number) => Math.abs(n / d - profit) < profit * tolerance;
+  for (const tolerance of [1e-6, 0.005]) {
+    const common = COMMON_FRACTIONS.find(([n, d]) => close(n, d, tolerance));
+    if (common) return `${common[0]}/${common[1]}`;
+  }
+  for (const tolerance of [1e-6, 0.005]) {
+    for (let d = 1; d <= 100; d++) {
+      const n = Math.round(profit * d);
+      if (n > 0 && close(n, d, tolerance)) return `${n}/${d}`;
+    }
+  }
+  return `${Math.round(profit * 100)}/100`;
+}
+
+function toAmerican(decimal: number) {
+  if (decimal <= 1) return '0';
+  return decimal >= 2 ? `+${Math.round((decimal - 1) * 100)}` : `-${Math.round(100 / (decimal - 1))}`;
+}
+
+export function formatOdds(decimal: number, format: OddsFormat = 'decimal') {
+  if (format === 'fractional') return toFraction(decimal);
+  if (format === 'american') return toAmerican(decimal);
+  return decimal.toFixed(2);
+}
+
+// Closing line value, how much better the taken price was than the close. 0.05 means 5% above it.
+export function closingLineValue(bet: { oddsDecimal: number; closingOdds?: number }): number | null {
+  return bet.closingOdds && bet.closingOdds > 1 ? bet.oddsDecimal / bet.closingOdds - 1 : null;
+}
+
+export const ODDS_PLACEHOLDER: Record<OddsFormat, string> = { decimal: '2.10', fractional: '11/10', american: '+110' };
+export const ODDS_FORMAT_LABEL: Record<OddsFormat, string> = { decimal: 'Decimal', fractional: 'Fractional', american: 'American' };
@@ -0,0 +1,178 @@
+import { useEffect, useState } from 'react';
+import { fetchBets, fetchProfiles, fetchState, putProfiles } from './api';
+import { cashStake, effectiveReturn, isBetSettled, isCashStake, outcomeWeight } from './bets';
+import { listenToTabs, postToTabs } from './channel';
+import { STORAGE_MODE } from './config';
+import { baseCurrency, inBaseCurrency } from './currency';
+import { deleteMeta, ledgerKey, readAllBets, readMeta, writeMeta } from './db';
+import { DEFAULT_STATE, loadLedger } from './storage';
+import { currentBankroll } from './staking';
+import { AppState, Bet, CurrencyCode, DEFAULT_PROFILE, Profile } from './types';
+
+// The list of profiles and which one is open. Both are kept per browser, the list is also shared through the server.
+
+// Union of two lists, the first one's names win
+function mergeProfiles(primary: Profile[], other: Profile[]) {
+  const ids = new Set(primary.map(p => p.id));
+  return [...primary, ...other.filter(p => !ids.has(p.id))];
+}
+
+export async function loadProfiles(): Promise<{ profiles: Profile[]; activeId: string }> {
+  let profiles = (await readMeta<Profile[]>('profiles')) ?? [DEFAULT_PROFILE];
+  if (STORAGE_MODE === 'server') {
+    try {
+      const remote = await fetchProfiles();
+      const merged = mergeProfiles(remote, profiles);
+      // Profiles made here while offline are sent on
+      profiles = merged.length > remote.length ? await putProfiles(merged) : merged;
+      await writeMeta('profiles', profiles);
+    } catch {
+      // Offline, the browser's list serves until the next load
+    }
+  }
+  const active = await readMeta<string>('activeProfile');
+  return { profiles, activeId: profiles.find(p => p.id === active)?.id ?? profiles[0].id };
+}
+
+export async function saveProfiles(profiles: Profile[]): Promise<Profile[]> {
+  let saved = profiles;
+  await writeMeta('profiles', profiles);
+  if (STORAGE_MODE === 'server') {
+    try {
+      saved = await putProfiles(profiles);
+      await writeMeta('profiles', saved);
+    } catch (e) {
+      console.error('Could not save profiles to the server', e);
+    }
+  }
+  postToTabs({ kind: 'profiles', profiles: saved });
+  return saved;
+}
+
+export function saveActiveProfile(id: string) {
+  return writeMeta('activeProfile', id).catch(e => console.error('Could not save the open profile', e));
+}
+
+export function newProfileId(name: string) {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 30) || 'profile';
+  return `${slug}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+// -------- Hook --------
+// Profile list and the open profile for a page. activeId is null until read, pages render a ledger per profile.
+export function useProfiles() {
+  const [profiles, setProfiles] = useState<Profile[]>([DEFAULT_PROFILE]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadProfiles().then(loaded => {
+      setProfiles(loaded.profiles);
+      setActiveId(loaded.activeId);
+    }, () => setActiveId(DEFAULT_PROFILE.id));
+    // Another tab added, renamed or removed one. The open profile stays open here even if it was removed there.
+    return listenToTabs(message => {
+      if (message.kind === 'profiles') setProfiles(message.profiles);
+    });
+  }, []);
+
+  function switchTo(id: string) {
+    saveActiveProfile(id);
+    setActiveId(id);
+  }
+
+  async function create(name: string) {
+    const profile = { id: newProfileId(name), name };
+    setProfiles(await saveProfiles([...profiles, profile]));
+    switchTo(profile.id);
+  }
+
+  async function rename(id: string, name: string) {
+    setProfiles(await saveProfiles(profiles.map(p => (p.id === id ? { ...p, name } : p))));
+  }
+
+  // Only an empty profile other than the open one can go, the error says why not
+  async function remove(id: string): Promise<string | null> {
+    if (id === activeId) return 'Switch to another profile first.';
+    const held = (await readAllBets(id)).length;
+    if (held) return `It still has ${held} bet${held === 1 ? '' : 's'}, move or delete them first.`;
+    setProfiles(await saveProfiles(profiles.filter(p => p.id !== id)));
+    await Promise.all((['state', 'version', 'synced'] as const).map(k => deleteMeta(ledgerKey(k, id))));
+    return null;
+  }
+
+  return { profiles, activeId, switchTo, create, rename, remove };
+}
+
+export type Profiles = ReturnType<typeof useProfiles>;
+
+// A profile that is not open, for comparing. The server's copy when there is one, else this browser's.
+export async function readProfileLedger(id: string): Promise<{ bets: Bet[]; state: AppState }> {
+  if (STORAGE_MODE === 'server') {
+    try {
+      const [bets, remote] = await Promise.all([fetchBets(id), fetchState(id)]);
+      return { bets, state: remote.state ?? DEFAULT_STATE };
+    } catch {
+      // Offline, fall back to the browser copy
+    }
+  }
+  const loaded = await loadLedger(id);
+  return { bets: loaded.bets, state: loaded.state };
+}
+
+// -------- Copy and move --------
+// Accounts, promotions and runs belong to the source profile's settings, so those links are dropped.
+// Chain links survive when both ends go across. Copies get fresh ids, moves keep theirs.
+export function transferredBets(bets: Bet[], mode: 'copy' | 'move', newId: () => string): Bet[] {
+  const now = new Date().toISOString();
+  const ids = new Map(bets.map(b => [b.id, mode === 'copy' ? newId() : b.id]));
+  return bets.map(b => ({
+    ...b,
+    id: ids.get(b.id)!,
+    parentId: b.parentId && ids.get(b.parentId),
+    chainId: b.chainId && ids.get(b.chainId),
+    runId: undefined,
+    accountId: undefined,
+    promotionId: undefined,
+    createdAt: mode === 'copy' ? now : b.createdAt,
+    updatedAt: now,
+  }));
+}
+
+// -------- Comparison --------
+export type ProfileSummary = {
+  currency: CurrencyCode;
+  bets: number;
+  pending: number;
+  staked: number;
+  profit: number;
+  roi: number;
+  winRate: number;
+  bankroll: number;
+  progress: number; // towards the profit target, 0 to 1
+};
+
+// Headline numbers for one profile, in its own base currency. Staked, ROI and win rate are about cash stakes.
+export function profileSummary(bets: Bet[], state: AppState): ProfileSummary {
+  const baseBets = bets.map(b => inBaseCurrency(b, state));
+  let staked = 0, returned = 0, weight = 0, wins = 0;
+  for (const b of baseBets) {
+    if (!isBetSettled(b) || !isCashStake(b)) continue;
+    const w = outcomeWeight(b.status);
+    weight += w.settled;
+    wins += w.won;
+    staked += cashStake(b);
+    returned += effectiveReturn(b) ?? 0;
+  }
+  const profit = +(returned - staked).toFixed(2);
+  return {
+    currency: baseCurrency(state),
+    bets: bets.length,
+    pending: bets.filter(b => !isBetSettled(b)).length,
+    staked: +staked.toFixed(2),
+    profit,
+    roi: staked > 0 ? profit / staked : 0,
+    winRate: weight > 0 ? wins / weight : 0,
+    bankroll: currentBankroll(state, baseBets),
+    progress: state.targetProfit > 0 ? Math.min(1, Math.max(0, profit / state.targetProfit)) : 0,
+  };
+}
@@ -0,0 +1,83 @@
+import { parseOdds } from './odds';
+import { sportDefs } from './taxonomy';
+import { AppState, DEFAULT_QUICK_RULES, QuickRule, Sport } from './types';
+
+// Reads a bet typed in one go, such as "£5 Villa race to 9 corners @ 2.1" or "10 on Alcaraz 6/4 tennis"
+
+export type QuickEntry = {
+  description: string; // what is left once the stake, odds and sport are taken out
+  stake?: number;
+  odds?: number; // decimal
+  sport?: Sport;
+  market?: string;
+  rule?: string; // keyword that picked the sport or market
+};
+
+export function quickRules(state: AppState): QuickRule[] {
+  return state.quickRules ?? DEFAULT_QUICK_RULES;
+}
+
+function escape(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function wordPattern(keyword: string) {
+  return new RegExp(`(^|\\s)${escape(keyword.trim()).replace(/\s+/g, '\\s+')}(?=\\s|$)`, 'i');
+}
+
+// Odds come after @ or "at", or are fractional, evens, or a decimal at the very end. A decimal anywhere else
+// is more likely part of the selection, as in "over 2.5 goals".
+function takeOdds(text: string): [number | undefined, string] {
+  const patterns = [
+    /(?:^|\s)(?:@|at\s)\s*(\S+)/i,
+    /(?:^|\s)(\d+\s*\/\s*\d+)(?=\s|$)/,
+    /(?:^|\s)(evens|evs)(?=\s|$)/i,
+    /(?:^|\s)(\d+\.\d+)\s*$/,
+  ];
+  for (const p of patterns) {
+    const m = text.match(p);
+    const odds = m ? parseOdds(m[1].replace(/\s+/g, '')) : null;
+    if (m && odds !== null && odds > 1) return [odds, text.replace(m[0], ' ')];
+  }
+  return [undefined, text];
+}
+
+// A currency amount anywhere, else a number leading the text. "on" after the stake is dropped.
+function takeStake(text: string, hasOdds: boolean): [number | undefined, string] {
+  const symbol = text.match(/(?:^|\s)[£$€](\d+(?:\.\d{1,2})?)(?:\s+on)?(?=\s|$)/i);
+  if (symbol) return [Number(symbol[1]), text.replace(symbol[0], ' ')];
+  const on = text.match(/^\s*(\d+(?:\.\d{1,2})?)\s+on\s/i);
+  if (on) return [Number(on[1]), text.replace(on[0], ' ')];
+  // A bare leading number is only a stake when the odds were found too, "2 goals" on its own is a selection
+  const lead = text.match(/^\s*(\d+(?:\.\d{1,2})?)\s+(?=[a-z])/i);
+  if (lead && hasOdds) return [Number(lead[1]), text.replace(lead[0], ' ')];
+  return [undefined, text];
+}
+
+// The first rule with a market wins, else the first that names a sport. Sport names count as rules of their own.
+// A keyword naming only the sport is taken out of the description, a market keyword is part of the selection.
+function takeSport(text: string, rules: QuickRule[], sports: Sport[]): [Pick<QuickEntry, 'sport' | 'market' | 'rule'>, string] {
+  const all: QuickRule[] = [...rules, ...sports.map(name => ({ id: name, keyword: name, sport: name }))];
+  const hits = all.filter(r => wordPattern(r.keyword).test(text));
+  const pick = hits.find(r => r.market) ?? hits[0];
+  if (!pick) return [{}, text];
+  let rest = text;
+  hits.filter(r => !r.market && r.sport === pick.sport).forEach(r => { rest = rest.replace(wordPattern(r.keyword), ' '); });
+  return [{ sport: pick.sport, market: pick.market, rule: pick.keyword }, rest];
+}
+
+export function parseQuickEntry(text: string, state: AppState): QuickEntry {
+  const names = sportDefs(state).map(d => d.name);
+  const rules = quickRules(state).filter(r => names.includes(r.sport));
+  // Sport words go first so a price before a trailing "tennis" still counts as at the end
+  const [sport, noSport] = takeSport(text, rules, names);
+  const [odds, noOdds] = takeOdds(noSport);
+  const [stake, rest] = takeStake(noOdds, odds !== undefined);
+  const description = rest.replace(/\s+/g, ' ').replace(/^(on|@)\s+|\s+(on|@|at)$/gi, '').trim();
+  return { description, stake, odds, ...sport };
+}
+
+// Worth showing as a preview once the text holds a stake or a price, a plain selection is left alone
+export function isQuickEntry(entry: QuickEntry) {
+  return entry.stake !== undefined || entry.odds !== undefined;
+}
@@ -0,0 +1,42 @@
+import { STORAGE_MODE } from '../config';
+import { validateBet } from '../storage';
+import { DEFAULT_PROFILE } from '../types';
+
+// Shared pieces of the API route handlers
+
+export function errorResponse(status: number, error: string, details?: string[]) {
+  return Response.json({ error, details }, { status });
+}
+
+// Local-only installs keep data in the browser, the API answers as if it did not exist
+export function apiDisabled() {
+  return STORAGE_MODE === 'local' ? errorResponse(404, 'Server storage is turned off') : null;
+}
+
+export async function readBody(req: Request): Promise<unknown> {
+  try {
+    return await req.json();
+  } catch {
+    return undefined;
+  }
+}
+
+export function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+// Problems with a bet sent by a client, prefixed with its id when there is one
+export function betErrors(v: unknown): string[] {
+  const errors = validateBet(v);
+  const id = isRecord(v) && typeof v.id === 'string' ? v.id : 'bet';
+  return errors.map(e => `${id}: ${e}`);
+}
+
+// Profile ids are short slugs, see newProfileId
+export const PROFILE_ID = /^[a-z0-9-]{1,40}$/;
+
+// The ledger a request is about, from ?profile=, null when the id is malformed
+export function profileOf(req: Request): string | null {
+  const id = new URL(req.url).searchParams.get('profile') ?? DEFAULT_PROFILE.id;
+  return PROFILE_ID.test(id) ? id : null;
+}
@@ -0,0 +1,163 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { BetChange, BetConflict, BetDelete } from '../api';
+import { BETS_KEY, checkLedger, migrateLedger, QuarantineEntry, SCHEMA_VERSION } from '../storage';
+import { AppState, Bet, DEFAULT_PROFILE, Profile } from '../types';
+
+// Embedded JSON file store behind the API routes. Every profile's ledger is in one file, read and rewritten per change.
+
+const DB_PATH = process.env.ROLLER_BETS_DB ?? path.join(process.cwd(), 'data', 'roller-bets.json');
+
+// One profile's ledger
+export type StoreData = {
+  bets: Bet[];
+  state: AppState | null; // null until a client first saves settings
+  stateUpdatedAt: string | null; // ISO, stamped by the server on every settings write
+};
+
+// A record that failed validation, kept in the file rather than dropped by the next write
+export type ServerQuarantineEntry = QuarantineEntry & { profileId: string };
+
+type StoreFile = {
+  version: number;
+  profiles: Profile[];
+  ledgers: Record<string, StoreData>; // by profile id, absent until something is saved to it
+  quarantine: ServerQuarantineEntry[];
+};
+
+const emptyLedger = (): StoreData => ({ bets: [], state: null, stateUpdatedAt: null });
+const emptyStore = (): StoreFile => ({ version: SCHEMA_VERSION, profiles: [DEFAULT_PROFILE], ledgers: {}, quarantine: [] });
+
+// A file that is not JSON, say from a crash or a hand edit, is moved aside whole and the store starts empty,
+// rather than every route failing until someone looks. The default profile's clients are told where it went.
+async function setAsideUnreadable(): Promise<StoreFile> {
+  const aside = `${DB_PATH}.unreadable-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+  await rename(DB_PATH, aside);
+  console.error(`[store] ${DB_PATH} is not valid JSON, moved it to ${aside} and started an empty store`);
+  const file = emptyStore();
+  file.quarantine.push({
+    profileId: DEFAULT_PROFILE.id,
+    source: BETS_KEY,
+    message: `the server's data file could not be read, it was moved to ${path.basename(aside)} and an empty store started`,
+    record: path.basename(aside),
+    quarantinedAt: new Date().toISOString(),
+  });
+  await write(file);
+  return file;
+}
+
+async function read(): Promise<StoreFile> {
+  let text: string;
+  try {
+    text = await readFile(DB_PATH, 'utf8');
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') return emptyStore();
+    throw e;
+  }
+  let raw: Partial<StoreFile> & Partial<StoreData>;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return setAsideUnreadable();
+  }
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return setAsideUnreadable();
+  // Files from before profiles hold a single ledger, it becomes the default profile's
+  const rawLedgers: Record<string, Partial<StoreData>> = raw.ledgers ?? { [DEFAULT_PROFILE.id]: raw };
+  const ledgers: Record<string, StoreData> = {};
+  const quarantine = Array.isArray(raw.quarantine) ? raw.quarantine : [];
+  const seen = new Set(quarantine.map(q => q.profileId + q.source + JSON.stringify(q.record)));
+  const alreadySetAside = quarantine.length;
+  const at = new Date().toISOString();
+  for (const [id, ledger] of Object.entries(rawLedgers)) {
+    // Same migrations and validation as the browser. Records that fail move to the quarantine, where the client is shown them.
+    const checked = checkLedger(migrateLedger({ bets: ledger.bets ?? [], state: ledger.state ?? undefined }, raw.version ?? 1));
+    for (const issue of checked.issues) {
+      const key = id + issue.source + JSON.stringify(issue.record);
+      if (issue.record === undefined || seen.has(key)) continue;
+      seen.add(key);
+      quarantine.push({ ...issue, profileId: id, quarantinedAt: at });
+    }
+    ledgers[id] = { bets: checked.bets, state: ledger.state ? checked.state : null, stateUpdatedAt: ledger.stateUpdatedAt ?? null };
+  }
+  const file = { version: SCHEMA_VERSION, profiles: raw.profiles?.length ? raw.profiles : [DEFAULT_PROFILE], ledgers, quarantine };
+  // Saved straight away, so the bad records leave the ledgers once and keep their quarantine timestamp
+  if (quarantine.length > alreadySetAside) await write(file);
+  return file;
+}
+
+// Written to a temp file first so a crash mid-write never leaves half a ledger
+async function write(data: StoreFile) {
+  await mkdir(path.dirname(DB_PATH), { recursive: true });
+  const tmp = `${DB_PATH}.tmp`;
+  await writeFile(tmp, JSON.stringify(data, null, 2));
+  await rename(tmp, DB_PATH);
+}
+
+// Reads and writes run one at a time so concurrent requests cannot overwrite each other
+let queue: Promise<unknown> = Promise.resolve();
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const next = queue.then(task, task);
+  queue = next.catch(() => undefined);
+  return next;
+}
+
+export function readStore(profileId: string): Promise<StoreData> {
+  return enqueue(async () => (await read()).ledgers[profileId] ?? emptyLedger());
+}
+
+// Records of the profile that were set aside, oldest first
+export function readQuarantined(profileId: string): Promise<QuarantineEntry[]> {
+  return enqueue(async () => (await read()).quarantine.filter(q => q.profileId === profileId));
+}
+
+// `change` edits the profile's ledger in place and says whether to save it, its result is passed back
+export function updateStore<T>(profileId: string, change: (data: StoreData) => { save: boolean; result: T }): Promise<T> {
+  return enqueue(async () => {
+    const file = await read();
+    const data = file.ledgers[profileId] ?? emptyLedger();
+    const { save, result } = change(data);
+    if (save) {
+      file.ledgers[profileId] = data;
+      await write(file);
+    }
+    return result;
+  });
+}
+
+export function readProfiles(): Promise<Profile[]> {
+  return enqueue(async () => (await read()).profiles);
+}
+
+// The list is small and rarely edited, the last write wins. A profile that still holds bets is never dropped.
+export function writeProfiles(profiles: Profile[]): Promise<Profile[]> {
+  return enqueue(async () => {
+    const file = await read();
+    const ids = new Set(profiles.map(p => p.id));
+    const kept = file.profiles.filter(p => !ids.has(p.id) && file.ledgers[p.id]?.bets.length);
+    file.profiles = [...profiles, ...kept];
+    await write(file);
+    return file.profiles;
+  });
+}
+
+// -------- Bet changes --------
+// A change only lands when the client saw the server's latest copy, matched on updatedAt
+
+export function applyUpsert(data: StoreData, change: BetChange): BetConflict | null {
+  const i = data.bets.findIndex(b => b.id === change.bet.id);
+  const current = i >= 0 ? data.bets[i] : null;
+  if (current?.updatedAt !== change.baseUpdatedAt) return { id: change.bet.id, current };
+  if (i >= 0) data.bets[i] = change.bet;
+  else data.bets.push(change.bet);
+  return null;
+}
+
+export function applyDelete(data: StoreData, change: BetDelete): BetConflict | null {
+  const i = data.bets.findIndex(b => b.id === change.id);
+  // Already gone is what the client wanted
+  if (i < 0) return null;
+  if (data.bets[i].updatedAt !== change.baseUpdatedAt) return { id: change.id, current: data.bets[i] };
+  data.bets.splice(i, 1);
+  return null;
+}
@@ -0,0 +1,118 @@
+import { ParsedSlip, SlipSelection } from './slips';
+
+// Example slips in each layout parseSlip reads, offered under "Try a sample" in the paste dialog. `npm run check:slips`
+// reads every one and compares it with what it should come out as.
+
+export type SlipExpectation = Pick<ParsedSlip, 'layout' | 'multiple' | 'stake' | 'betRef' | 'placedAt'> & {
+  selections: SlipSelection[];
+  unread?: string[]; // lines nothing should be taken from
+};
+
+export type SampleSlip = { name: string; expected: SlipExpectation; text: string };
+
+export const SAMPLE_SLIPS: SampleSlip[] = [
+  {
+    name: 'Bet receipt, single',
+    expected: {
+      layout: 'Bet receipt',
+      multiple: false,
+      stake: 5,
+      betRef: 'JK4821937710F',
+      placedAt: '2026-10-18T14:32',
+      selections: [{ description: 'Arsenal', odds: 2.1, market: 'Full Time Result', event: 'Arsenal v Chelsea' }],
+    },
+    text: `Bet Receipt
+Bet Ref: JK4821937710F
+Placed: 18/10/2026 14:32
+Single
+Arsenal
+Full Time Result
+Arsenal v Chelsea
+@ 2.10
+Stake £5.00
+To Return £10.50`,
+  },
+  {
+    name: 'Confirmation email, treble',
+    expected: {
+      layout: 'Confirmation email',
+      multiple: true,
+      stake: 2,
+      betRef: 'O/0412233/0000981',
+      placedAt: '2026-10-18T09:15',
+      selections: [
+        { description: 'Arsenal', odds: 2.1, market: 'Match Betting', event: 'Arsenal v Chelsea' },
+        { description: 'Alcaraz', odds: 1.667, market: 'Match Betting', event: 'Alcaraz v Sinner' },
+        { description: 'Over 2.5 Goals', odds: 1.727, market: 'Total Goals', event: 'Villa v Spurs' },
+      ],
+    },
+    text: `Hi Sam,
+Your bet has been placed.
+Receipt No: O/0412233/0000981
+Date: 18 Oct 2026, 09:15
+Bet type: Treble
+Selection: Arsenal - Match Betting - Arsenal v Chelsea @ 11/10
+Selection: Alcaraz - Match Betting - Alcaraz v Sinner @ 4/6
+Selection: Over 2.5 Goals - Total Goals - Villa v Spurs @ 8/11
+Total stake: £2.00
+Potential returns: £10.47
+Good luck!`,
+  },
+  {
+    name: 'Shared bet, double',
+    expected: {
+      layout: 'Shared bet',
+      multiple: true,
+      stake: 10,
+      selections: [
+        { description: 'Man City', odds: 1.5, event: 'Man City v Everton' },
+        { description: 'Villa', odds: 2.2, event: 'Villa v Spurs' },
+      ],
+    },
+    text: `I've placed a £10 Double, fancy it?
+Man City @ 1.5 (Man City v Everton)
+Villa @ 2.2 (Villa v Spurs)
+Odds may change`,
+  },
+  {
+    name: 'Email, three singles',
+    // £4.00 each from the £12.00 total
+    expected: {
+      layout: 'Confirmation email',
+      multiple: false,
+      stake: 4,
+      betRef: '77120045',
+      placedAt: '2026-10-17T19:45',
+      selections: [
+        { description: 'Root', odds: 5.5, market: 'Top Batter', event: 'England v India' },
+        { description: 'Norrie', odds: 2.625, market: 'Match Winner', event: 'Norrie v Fritz' },
+        { description: 'Liverpool', odds: 1.4, market: 'Result', event: 'Liverpool v Wolves' },
+      ],
+    },
+    text: `Bet confirmation
+Bet ID: 77120045
+Placed on 2026-10-17 19:45
+Singles
+Leg 1: Root - Top Batter - England v India @ 9/2
+Leg 2: Norrie - Match Winner - Norrie v Fritz @ 13/8
+Leg 3: Liverpool - Result - Liverpool v Wolves @ 1.4
+Total stake: £12.00`,
+  },
+  {
+    name: 'Raw text',
+    // No stake, the two lines without a price are highlighted
+    expected: {
+      layout: 'Raw text',
+      multiple: false,
+      selections: [
+        { description: 'Villa race to 9 corners', odds: 2.1 },
+        { description: 'Alcaraz to win', odds: 2.5 },
+      ],
+      unread: ['Sent from my phone', 'cash out available'],
+    },
+    text: `Sent from my phone
+Villa race to 9 corners @ 2.1
+Alcaraz to win 6/4
+cash out available`,
+  },
+];
@@ -0,0 +1,300 @@
+import { applyLegs } from './legs';
+import { parseOdds } from './odds';
+import { parseQuickEntry } from './quickEntry';
+import { marketsFor } from './taxonomy';
+import { AppState, Bet, BetLeg, CurrencyCode, Sport } from './types';
+
+// Reads bet confirmations pasted as text, from an email or a bookmaker app's share button. Each layout has a
+// parser of its own and the first that recognises the text reads it. Raw text is the fallback for anything else.
+
+export type SlipSelection = { description: string; odds: number; market?: string; event?: string };
+
+export type ParsedSlip = {
+  layout: string; // name of the parser that read it
+  selections: SlipSelection[];
+  stake?: number; // per bet, each single's or the whole accumulator's
+  betRef?: string;
+  placedAt?: string; // yyyy-mm-ddThh:mm
+  multiple: boolean; // one accumulator of the selections, else a single each
+  lines: { text: string; read: boolean }[]; // the pasted text, marked where something was taken from it
+};
+
+// What a parser found, with the indexes of the lines it used
+type Reading = {
+  selections: SlipSelection[];
+  stake?: number;
+  totalStake?: boolean; // the stake covers every single on the slip
+  betRef?: string;
+  placedAt?: string;
+  multiple?: boolean; // unknown when the slip does not say
+  read: Set<number>;
+};
+
+export type SlipParser = {
+  id: string;
+  name: string;
+  detect: (text: string) => boolean;
+  parse: (lines: string[]) => Reading;
+};
+
+const uid = () => Math.random().toString(36).slice(2) + Date.now().toString(36);
+
+// -------- Shared line readers --------
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// "12/10/2026 14:32", "12 Oct 2026, 14:32" or "2026-10-12 14:32", midnight when the time is missing
+export function parsePlacedAt(raw: string): string | null {
+  let y: number, m: number, d: number;
+  const iso = raw.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  const uk = raw.match(/\b(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})\b/);
+  const named = raw.match(/\b(\d{1,2})(?:st|nd|rd|th)?\s+([a-z]{3})[a-z]*\.?,?\s+(\d{4})\b/i);
+  if (iso) [y, m, d] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  else if (uk) [d, m, y] = [Number(uk[1]), Number(uk[2]), uk[3].length === 2 ? 2000 + Number(uk[3]) : Number(uk[3])];
+  else if (named && MONTHS.includes(named[2].toLowerCase())) [d, m, y] = [Number(named[1]), MONTHS.indexOf(named[2].toLowerCase()) + 1, Number(named[3])];
+  else return null;
+  const dt = new Date(y, m - 1, d);
+  if (dt.getFullYear() !== y || dt.getMonth() !== m - 1 || dt.getDate() !== d) return null;
+  const time = raw.match(/\b(\d{1,2})[:.](\d{2})(?!\d|[./-]\d)/);
+  const hh = time && Number(time[1]) < 24 ? time[1].padStart(2, '0') : '00';
+  const mm = time && Number(time[1]) < 24 ? time[2] : '00';
+  return `${y}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}T${hh}:${mm}`;
+}
+
+function amount(raw: string): number | null {
+  const m = raw.match(/[£$€]?\s*(\d{1,3}(?:,\d{3})*(?:\.\d{1,2})?|\d+(?:\.\d{1,2})?)/);
+  return m ? Number(m[1].replaceAll(',', '')) : null;
+}
+
+const REF = /^(?:bet\s*(?:ref(?:erence)?|id|no\.?|number)|receipt(?:\s*(?:no\.?|id|number))?|reference)\s*:?\s*#?\s*([A-Z0-9][A-Z0-9/-]{3,})\s*$/i;
+const PLACED = /^(?:(?:bet\s+|time\s+)?placed(?:\s+on|\s+at)?|date(?:\s+placed)?)\s*:?\s*(.+)$/i;
+const STAKE = /^(total\s+)?stake(?:\s+per\s+(?:line|bet))?\s*:?\s*(.+)$/i;
+// The whole line, so a market such as "Double Chance" is not taken for the bet type
+const KIND = /^(?:bet\s+type\s*:?\s*)?(singles?|double|treble|trixie|\d+\s*[- ]?folds?|acca|accumulator)(?:\s+bet)?(?:\s*\(.*\))?\s*$/i;
+// Lines every layout carries that hold nothing to keep
+const NOISE = /^(?:hi|hello|dear|thanks|thank you|good luck|your bet has been|to return|potential returns?|returns?|est\.? returns?|odds\b.*\bchange|bet confirmation|bet receipt)\b/i;
+
+function isMultipleKind(kind: string) {
+  return /^(?:double|treble|trixie|\d+\s*[- ]?fold|acca|accumulator)/i.test(kind.trim());
+}
+
+// Takes the reference, placed time, stake and bet type from a line, true when it was one of those
+function readHeader(line: string, r: Reading): boolean {
+  let m = line.match(REF);
+  if (m) {
+    r.betRef = m[1];
+    return true;
+  }
+  m = line.match(PLACED);
+  const placed = m && parsePlacedAt(m[1]);
+  if (placed) {
+    r.placedAt = placed;
+    return true;
+  }
+  m = line.match(STAKE);
+  const stake = m && amount(m[2]);
+  if (m && stake !== null) {
+    r.stake = stake;
+    r.totalStake = !!m[1];
+    return true;
+  }
+  m = line.match(KIND);
+  if (m) {
+    r.multiple = isMultipleKind(m[1]);
+    return true;
+  }
+  return NOISE.test(line);
+}
+
+// "Arsenal v Chelsea" parts after a dash or in brackets
+function splitDetails(raw: string): Pick<SlipSelection, 'market' | 'event'> {
+  const parts = raw.replace(/^[(\s-]+|[)\s]+$/g, '').split(/\s+[-–|]\s+/).map(p => p.trim()).filter(Boolean);
+  const event = parts.find(p => /\s(?:v|vs)\.?\s/i.test(p));
+  const market = parts.find(p => p !== event);
+  return { market, event };
+}
+
+function emptyReading(): Reading {
+  return { selections: [], read: new Set() };
+}
+
+// -------- Layouts --------
+// A receipt lists each selection over a few lines, name then market then event, closed by the price on its own
+const receipt: SlipParser = {
+  id: 'receipt',
+  name: 'Bet receipt',
+  detect: text => /^\s*bet\s*ref/im.test(text) && /^\s*@?\s*(\d+(?:\.\d+)?|\d+\/\d+|evens|evs)\s*$/im.test(text),
+  parse: lines => {
+    const r = emptyReading();
+    let block: number[] = [];
+    lines.forEach((line, i) => {
+      if (readHeader(line, r)) {
+        r.read.add(i);
+        return;
+      }
+      const price = line.match(/^@?\s*(\S+)$/);
+      const odds = price ? parseOdds(price[1]) : null;
+      if (odds !== null && odds > 1 && block.length) {
+        const [name, market, event] = block.map(j => lines[j]);
+        r.selections.push({ description: name, odds, market, event });
+        [...block.slice(0, 3), i].forEach(j => r.read.add(j));
+        block = [];
+      } else {
+        block.push(i);
+      }
+    });
+    return r;
+  },
+};
+
+// An email names each leg on one line: "Selection: Arsenal - Match Betting - Arsenal v Chelsea @ 11/10"
+const email: SlipParser = {
+  id: 'email',
+  name: 'Confirmation email',
+  detect: text => /^\s*(?:selection|leg\s+\d+)\s*:/im.test(text),
+  parse: lines => {
+    const r = emptyReading();
+    lines.forEach((line, i) => {
+      const m = line.match(/^(?:selection|leg\s+\d+)\s*:\s*(.+?)\s*@\s*(\S+)\s*$/i);
+      const odds = m ? parseOdds(m[2]) : null;
+      if (m && odds !== null && odds > 1) {
+        const [description, ...rest] = m[1].split(/\s+[-–]\s+/);
+        r.selections.push({ description: description.trim(), odds, ...splitDetails(rest.join(' - ')) });
+        r.read.add(i);
+      } else if (readHeader(line, r)) {
+        r.read.add(i);
+      }
+    });
+    return r;
+  },
+};
+
+// An app's share text opens with the stake and bet type: "I've placed a £5 Double", then "Arsenal @ 2.1 (Arsenal v Chelsea)"
+const share: SlipParser = {
+  id: 'share',
+  name: 'Shared bet',
+  detect: text => /placed an?\s+[£$€]\s*\d/i.test(text),
+  parse: lines => {
+    const r = emptyReading();
+    lines.forEach((line, i) => {
+      const opener = line.match(/placed an?\s+([£$€]\s*[\d.,]+)\s+(\S+(?:\s*fold)?)/i);
+      if (opener) {
+        r.stake = amount(opener[1]) ?? undefined;
+        r.multiple = isMultipleKind(opener[2]);
+        r.read.add(i);
+        return;
+      }
+      if (readHeader(line, r)) {
+        r.read.add(i);
+        return;
+      }
+      const m = line.match(/^(.+?)\s*@\s*(\S+)(.*)$/);
+      const odds = m ? parseOdds(m[2]) : null;
+      if (m && odds !== null && odds > 1) {
+        r.selections.push({ description: m[1].trim(), odds, ...splitDetails(m[3]) });
+        r.read.add(i);
+      }
+    });
+    return r;
+  },
+};
+
+// Anything with a price after @ or a fraction at the end of a line, the rest is left for the user to check
+const raw: SlipParser = {
+  id: 'raw',
+  name: 'Raw text',
+  detect: () => true,
+  parse: lines => {
+    const r = emptyReading();
+    lines.forEach((line, i) => {
+      if (readHeader(line, r)) {
+        r.read.add(i);
+        return;
+      }
+      const m = line.match(/^(.+?)\s*(?:@\s*(\S+)|\s(\d+\/\d+(?![\d/])|evens|evs))(.*)$/i);
+      const odds = m ? parseOdds(m[2] ?? m[3]) : null;
+      if (m && odds !== null && odds > 1) {
+        r.selections.push({ description: m[1].replace(/[\s:-]+$/, '').trim(), odds, ...splitDetails(m[4]) });
+        r.read.add(i);
+      }
+    });
+    return r;
+  },
+};
+
+// Checked in order, add new layouts before the raw fallback
+export const SLIP_PARSERS: SlipParser[] = [receipt, email, share, raw];
+
+export function parseSlip(text: string): ParsedSlip {
+  const lines = text.split(/\r?\n/).map(l => l.trim());
+  const keep = (i: number) => lines[i] !== '';
+  // A layout that recognised the text but found no selection hands over to the next
+  let parser = raw;
+  let r = emptyReading();
+  for (const p of SLIP_PARSERS) {
+    if (!p.detect(text)) continue;
+    parser = p;
+    r = p.parse(lines);
+    if (r.selections.length) break;
+  }
+  const multiple = r.multiple ?? false;
+  const stake = r.stake !== undefined && r.totalStake && !multiple && r.selections.length > 1
+    ? +(r.stake / r.selections.length).toFixed(2)
+    : r.stake;
+  return {
+    layout: parser.name,
+    selections: r.selections,
+    stake,
+    betRef: r.betRef,
+    placedAt: r.placedAt,
+    multiple: multiple && r.selections.length > 1,
+    lines: lines.map((t, i) => ({ text: t, read: r.read.has(i) || !keep(i) })),
+  };
+}
+
+// -------- Bets --------
+export type SlipDefaults = { sport: Sport; currency: CurrencyCode; accountId?: string };
+
+function toDate(d: Date) {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+// Sport and market come from the quick entry rules where the slip's words match one, else the defaults
+function classify(sel: SlipSelection, state: AppState, sport: Sport) {
+  const q = parseQuickEntry([sel.description, sel.market, sel.event].filter(Boolean).join(' '), state);
+  const s = q.sport ?? sport;
+  const listed = marketsFor(state, s).find(m => m.toLowerCase() === sel.market?.toLowerCase());
+  return { sport: s, market: listed ?? q.market };
+}
+
+function teams(event?: string): Pick<Bet, 'home' | 'away'> {
+  const [home, away] = (event ?? '').split(/\s+(?:v|vs)\.?\s+/i).map(t => t.trim());
+  return home && away ? { home, away } : {};
+}
+
+export function slipBets(slip: ParsedSlip, stake: number, state: AppState, d: SlipDefaults): Bet[] {
+  const now = new Date().toISOString();
+  const base = {
+    date: slip.placedAt?.slice(0, 10) ?? toDate(new Date()),
+    stake: +stake.toFixed(2),
+    currency: d.currency,
+    accountId: d.accountId,
+    status: 'Pending' as const,
+    betRef: slip.betRef,
+    placedAt: slip.placedAt,
+    createdAt: now,
+    updatedAt: now,
+  };
+  if (slip.multiple) {
+    const legs: BetLeg[] = slip.selections.map(sel => ({ id: uid(), description: sel.description, ...classify(sel, state, d.sport), oddsDecimal: sel.odds, status: 'Pending' }));
+    const bet: Bet = { ...base, id: uid(), description: legs.map(l => l.description).join(' / '), sport: d.sport, oddsDecimal: 0 };
+    return [applyLegs(bet, legs, now)];
+  }
+  return slip.selections.map(sel => ({
+    ...base,
+    id: uid(),
+    description: sel.description,
+    ...classify(sel, state, d.sport),
+    ...teams(sel.event),
+    oddsDecimal: sel.odds,
+  }));
+}
@@ -0,0 +1,46 @@
+import { cashStake, effectiveReturn, isBetSettled } from './bets';
+import { AppState, Bet, StakingPlan, StakingPlanKind } from './types';
+
+// Stake recommendations for the add form. Bets passed in must already be in the base currency.
+
+export const STAKING_PLAN_LABEL: Record<StakingPlanKind, string> = {
+  flat: 'Flat stake',
+  percent: 'Percentage of bankroll',
+  kelly: 'Kelly',
+  ladder: 'Custom ladder',
+};
+
+// Sensible starting values when switching plan
+export const DEFAULT_PLANS: Record<StakingPlanKind, StakingPlan> = {
+  flat: { kind: 'flat', stake: 5 },
+  percent: { kind: 'percent', percent: 0.02 },
+  kelly: { kind: 'kelly', fraction: 0.25 },
+  ladder: { kind: 'ladder', rungs: [{ minOdds: 1.01, stake: 10 }, { minOdds: 2, stake: 5 }, { minOdds: 4, stake: 2 }] },
+};
+
+export function currentBankroll(state: AppState, baseBets: Bet[]) {
+  const profit = baseBets.filter(b => isBetSettled(b)).reduce((s, b) => s + (effectiveReturn(b) ?? 0) - cashStake(b), 0);
+  return +((state.startingBankroll ?? 0) + profit).toFixed(2);
+}
+
+// Share of bankroll that maximises growth, zero when the price offers no edge
+export function kellyFraction(oddsDecimal: number, probability: number) {
+  if (oddsDecimal <= 1) return 0;
+  return Math.max(0, (probability * oddsDecimal - 1) / (oddsDecimal - 1));
+}
+
+// Null when the plan cannot say, e.g. Kelly without a probability or odds below the first rung
+export function recommendedStake(plan: StakingPlan, bankroll: number, oddsDecimal: number, probability?: number): number | null {
+  const bank = Math.max(0, bankroll);
+  switch (plan.kind) {
+    case 'flat': return plan.stake;
+    case 'percent': return +(bank * plan.percent).toFixed(2);
+    case 'kelly':
+      if (probability === undefined || oddsDecimal <= 1) return null;
+      return +(bank * kellyFraction(oddsDecimal, probability) * plan.fraction).toFixed(2);
+    case 'ladder': {
+      const rung = plan.rungs.filter(r => oddsDecimal >= r.minOdds).sort((a, b) => b.minOdds - a.minOdds)[0];
+      return rung ? rung.stake : null;
+    }
+  }
+}
@@ -0,0 +1,80 @@
+// Confidence intervals and significance for the insights tables, so a band with three bets is not read as a trend
+
+export type Interval = { low: number; high: number };
+
+// Settled bets a row needs before its rates say much, rows with fewer are greyed out
+export const MIN_SAMPLE = 30;
+
+export function hasEnoughSample(settled: number) {
+  return settled >= MIN_SAMPLE;
+}
+
+const Z95 = 1.959964;
+
+// Wilson score interval for a hit rate. Wins and the count may be fractional, half results count as half a bet.
+export function wilsonInterval(wins: number, n: number, z = Z95): Interval | null {
+  if (n <= 0) return null;
+  const p = wins / n;
+  const z2 = z * z;
+  const denom = 1 + z2 / n;
+  const centre = (p + z2 / (2 * n)) / denom;
+  const half = (z * Math.sqrt((p * (1 - p)) / n + z2 / (4 * n * n))) / denom;
+  return { low: Math.max(0, centre - half), high: Math.min(1, centre + half) };
+}
+
+// Small fast generator, seeded so the same bets always give the same interval
+function mulberry32(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Percentile bootstrap of ROI, resampling whole bets with replacement. Pass stakes and returns in one currency.
+export function roiInterval(bets: { stake: number; ret: number }[], resamples = 1000): Interval | null {
+  const n = bets.length;
+  if (n < 2) return null;
+  const rand = mulberry32(n);
+  const rois: number[] = [];
+  for (let r = 0; r < resamples; r++) {
+    let staked = 0;
+    let profit = 0;
+    for (let i = 0; i < n; i++) {
+      const b = bets[Math.floor(rand() * n)];
+      staked += b.stake;
+      profit += b.ret - b.stake;
+    }
+    rois.push(staked > 0 ? profit / staked : 0);
+  }
+  rois.sort((a, b) => a - b);
+  return { low: rois[Math.floor(resamples * 0.025)], high: rois[Math.ceil(resamples * 0.975) - 1] };
+}
+
+// Abramowitz and Stegun 7.1.26, good to about 1e-7
+function normalCdf(x: number) {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// How far the wins sit from what the prices implied, in standard deviations, with the two-sided p-value.
+// Each bet is its own coin with the implied chance 1 / odds, weighted like outcomeWeight.
+export function edgeSignificance(bets: { odds: number; weight: number; won: number }[]): { z: number; p: number } | null {
+  let expected = 0;
+  let variance = 0;
+  let wins = 0;
+  for (const b of bets) {
+    const q = 1 / b.odds;
+    expected += b.weight * q;
+    variance += b.weight * b.weight * q * (1 - q);
+    wins += b.won;
+  }
+  if (variance <= 0) return null;
+  const z = (wins - expected) / Math.sqrt(variance);
+  return { z, p: 2 * (1 - normalCdf(Math.abs(z))) };
+}
@@ -0,0 +1,447 @@
+import { postToTabs } from './channel';
+import { deleteMeta, ledgerKey, readAllBets, readMeta, writeBets, writeMeta } from './db';
+import { AppState, Bet, BET_STATUSES, DEFAULT_PROFILE, BookmakerAccount, ChallengeRun, CURRENCIES, CurrencyCode, ExchangeRate, LEG_STATUSES, LegStatus, ODDS_FORMATS, OddsFormat, Promotion, QuickRule, SportDef, STAKE_TYPES, StakeType, StakingPlan, TRANSACTION_KINDS, TransactionKind } from './types';
+
+// -------- Keys and versions --------
+// Names of the original localStorage keys, still used to label issues and in backup files
+export const BETS_KEY = 'rb.bets';
+export const STATE_KEY = 'rb.state';
+export const VERSION_KEY = 'rb.version';
+export const QUARANTINE_KEY = 'rb.quarantine';
+export const SYNC_KEY = 'rb.synced';
+
+// Data written before versioning started counts as version 1
+export const SCHEMA_VERSION = 3;
+
+export const DEFAULT_STATE: AppState = { targetProfit: 100, startingBankroll: 5, theme: 'dark' };
+
+type StorageSource = typeof BETS_KEY | typeof STATE_KEY;
+
+export type RawLedger = { bets: unknown; state: unknown };
+
+export type StorageIssue = { source: StorageSource; message: string; record?: unknown };
+
+export type QuarantineEntry = StorageIssue & { quarantinedAt: string };
+
+export type LoadResult = {
+  bets: Bet[];
+  state: AppState;
+  hadBets: boolean; // false on first run, so the tracker can seed examples
+  issues: StorageIssue[];
+};
+
+// -------- Migrations --------
+// Ordered, each one lifts data from `to - 1` to `to`. Never edit a shipped step, add a new one.
+const MIGRATIONS: { to: number; migrate: (data: RawLedger) => RawLedger }[] = [
+  {
+    // Early builds could store numbers as strings and left timestamps out
+    to: 2,
+    migrate: ({ bets, state }) => ({
+      bets: Array.isArray(bets)
+        ? bets.map(b => {
+          if (!isRecord(b)) return b;
+          const stamp = typeof b.settledAt === 'string' ? b.settledAt : new Date().toISOString();
+          return {
+            ...b,
+            stake: toNumber(b.stake),
+            oddsDecimal: toNumber(b.oddsDecimal),
+            returnOverride: b.returnOverride === null || b.returnOverride === '' ? undefined : toNumber(b.returnOverride),
+            createdAt: typeof b.createdAt === 'string' ? b.createdAt : stamp,
+            updatedAt: typeof b.updatedAt === 'string' ? b.updatedAt : stamp,
+          };
+        })
+        : bets,
+      state: isRecord(state) ? { ...state, runs: Array.isArray(state.runs) ? state.runs : [] } : state,
+    }),
+  },
+  {
+    // Football categories became markets, which any sport can have
+    to: 3,
+    migrate: ({ bets, state }) => {
+      const renameCategory = (r: unknown) => {
+        if (!isRecord(r) || !('category' in r)) return r;
+        const { category, ...rest } = r;
+        return { ...rest, market: category };
+      };
+      return {
+        bets: Array.isArray(bets)
+          ? bets.map(b => {
+            const next = renameCategory(b);
+            return isRecord(next) && Array.isArray(next.legs) ? { ...next, legs: next.legs.map(renameCategory) } : next;
+          })
+          : bets,
+        state,
+      };
+    },
+  },
+];
+
+export function migrateLedger(data: RawLedger, fromVersion: number): RawLedger {
+  return MIGRATIONS
+    .filter(m => m.to > fromVersion && m.to <= SCHEMA_VERSION)
+    .reduce((acc, m) => m.migrate(acc), data);
+}
+
+// -------- Validation --------
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+function toNumber(v: unknown) {
+  return typeof v === 'string' && v.trim() !== '' ? Number(v) : v;
+}
+
+function isFiniteNumber(v: unknown): v is number {
+  return typeof v === 'number' && Number.isFinite(v);
+}
+
+function isOptionalString(v: unknown) {
+  return v === undefined || typeof v === 'string';
+}
+
+// Returns the problems with a stored bet, empty when it is safe to use
+export function validateBet(v: unknown): string[] {
+  if (!isRecord(v)) return ['not an object'];
+  const errors: string[] = [];
+  if (typeof v.id !== 'string' || !v.id) errors.push('missing id');
+  if (typeof v.date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(v.date)) errors.push('bad date');
+  if (typeof v.description !== 'string') errors.push('missing description');
+  if (typeof v.sport !== 'string' || !v.sport.trim()) errors.push('missing sport');
+  if (!isOptionalString(v.market)) errors.push('bad market');
+  for (const k of ['competition', 'home', 'away', 'betRef'] as const) {
+    if (!isOptionalString(v[k])) errors.push(`bad ${k}`);
+  }
+  for (const k of ['kickoff', 'placedAt'] as const) {
+    const t = v[k];
+    if (t !== undefined && (typeof t !== 'string' || !/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/.test(t))) errors.push(`bad ${k}`);
+  }
+  if (v.tags !== undefined && (!Array.isArray(v.tags) || !v.tags.every(t => typeof t === 'string' && t))) errors.push('bad tags');
+  if (!isFiniteNumber(v.stake) || v.stake < 0) errors.push('bad stake');
+  if (v.stakeType !== undefined && !STAKE_TYPES.includes(v.stakeType as StakeType)) errors.push(`unknown stake type ${JSON.stringify(v.stakeType)}`);
+  if (v.currency !== undefined && !CURRENCIES.includes(v.currency as CurrencyCode)) errors.push(`unknown currency ${JSON.stringify(v.currency)}`);
+  if (!isFiniteNumber(v.oddsDecimal) || v.oddsDecimal < 1) errors.push('bad odds');
+  if (v.closingOdds !== undefined && (!isFiniteNumber(v.closingOdds) || v.closingOdds <= 1)) errors.push('bad closing odds');
+  if (!BET_STATUSES.includes(v.status as Bet['status'])) errors.push(`unknown status ${JSON.stringify(v.status)}`);
+  if (v.legs !== undefined) {
+    if (!Array.isArray(v.legs) || v.legs.length < 2) errors.push('bad legs');
+    else v.legs.forEach((leg, i) => errors.push(...validateLeg(leg).map(e => `leg ${i + 1} ${e}`)));
+  }
+  if (v.eachWay !== undefined) {
+    const ew = v.eachWay;
+    if (!isRecord(ew) || !isFiniteNumber(ew.placeFraction) || ew.placeFraction <= 0 || ew.placeFraction > 1 || !Number.isInteger(ew.places) || (ew.places as number) < 1) errors.push('bad each-way terms');
+  }
+  if (v.cashOuts !== undefined) {
+    if (!Array.isArray(v.cashOuts)) errors.push('bad cash outs');
+    else {
+      v.cashOuts.forEach((c, i) => {
+        if (!isRecord(c) || typeof c.id !== 'string' || typeof c.at !== 'string' || !isFiniteNumber(c.amount) || c.amount < 0 || !isFiniteNumber(c.stake) || c.stake <= 0) {
+          errors.push(`bad cash out ${i + 1}`);
+        }
+      });
+      const released = v.cashOuts.reduce((s: number, c) => s + (isRecord(c) && isFiniteNumber(c.stake) ? c.stake : 0), 0);
+      if (isFiniteNumber(v.stake) && released > v.stake + 0.005) errors.push('cash outs release more than the stake');
+    }
+  }
+  if (v.status === 'Placed' && v.eachWay === undefined) errors.push('placed without each-way terms');
+  if (v.returnOverride !== undefined && (!isFiniteNumber(v.returnOverride) || v.returnOverride < 0)) errors.push('bad return override');
+  if (v.probability !== undefined && (!isFiniteNumber(v.probability) || v.probability <= 0 || v.probability >= 1)) errors.push('bad probability');
+  for (const k of ['settledAt', 'parentId', 'chainId', 'runId', 'accountId', 'promotionId'] as const) {
+    if (!isOptionalString(v[k])) errors.push(`bad ${k}`);
+  }
+  if (typeof v.createdAt !== 'string') errors.push('missing createdAt');
+  if (typeof v.updatedAt !== 'string') errors.push('missing updatedAt');
+  return errors;
+}
+
+function validateLeg(v: unknown): string[] {
+  if (!isRecord(v)) return ['not an object'];
+  const errors: string[] = [];
+  if (typeof v.id !== 'string' || !v.id) errors.push('missing id');
+  if (typeof v.description !== 'string') errors.push('missing description');
+  if (typeof v.sport !== 'string' || !v.sport.trim()) errors.push('missing sport');
+  if (!isOptionalString(v.market)) errors.push('bad market');
+  if (!isFiniteNumber(v.oddsDecimal) || v.oddsDecimal < 1) errors.push('bad odds');
+  if (!LEG_STATUSES.includes(v.status as LegStatus)) errors.push(`unknown status ${JSON.stringify(v.status)}`);
+  return errors;
+}
+
+function validateRun(v: unknown): string[] {
+  if (!isRecord(v)) return ['not an object'];
+  const errors: string[] = [];
+  if (typeof v.id !== 'string' || !v.id) errors.push('missing id');
+  if (typeof v.startedAt !== 'string') errors.push('missing startedAt');
+  if (!isFiniteNumber(v.startStake) || v.startStake <= 0) errors.push('bad startStake');
+  if (!isFiniteNumber(v.target)) errors.push('bad target');
+  if (!isOptionalString(v.abandonedAt)) errors.push('bad abandonedAt');
+  return errors;
+}
+
+function validateRate(v: unknown): string[] {
+  if (!isRecord(v)) return ['not an object'];
+  const errors: string[] = [];
+  if (typeof v.id !== 'string' || !v.id) errors.push('missing id');
+  if (typeof v.date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(v.date)) errors.push('bad date');
+  if (!CURRENCIES.includes(v.from as CurrencyCode) || !CURRENCIES.includes(v.to as CurrencyCode)) errors.push('unknown currency');
+  if (!isFiniteNumber(v.rate) || v.rate <= 0) errors.push('bad rate');
+  return errors;
+}
+
+function validateAccount(v: unknown): string[] {
+  if (!isRecord(v)) return ['not an object'];
+  const errors: string[] = [];
+  if (typeof v.id !== 'string' || !v.id) errors.push('missing id');
+  if (typeof v.name !== 'string' || !v.name) errors.push('missing name');
+  if (!CURRENCIES.includes(v.currency as CurrencyCode)) errors.push(`unknown currency ${JSON.stringify(v.currency)}`);
+  if (!Array.isArray(v.transactions)) errors.push('bad transactions');
+  else {
+    v.transactions.forEach((t, i) => {
+      if (!isRecord(t) || typeof t.id !== 'string' || typeof t.date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(t.date)
+        || !TRANSACTION_KINDS.includes(t.kind as TransactionKind) || !isFiniteNumber(t.amount) || t.amount <= 0 || !isOptionalString(t.note)) {
+        errors.push(`bad transaction ${i + 1}`);
+      }
+    });
+  }
+  return errors;
+}
+
+function isSportDef(v: unknown): v is SportDef {
+  return isRecord(v) && typeof v.name === 'string' && !!v.name.trim() && Array.isArray(v.markets) && v.markets.every(m => typeof m === 'string' && m);
+}
+
+function isQuickRule(v: unknown): v is QuickRule {
+  return isRecord(v) && typeof v.id === 'string' && !!v.id && typeof v.keyword === 'string' && !!v.keyword.trim()
+    && typeof v.sport === 'string' && !!v.sport.trim() && isOptionalString(v.market);
+}
+
+function isStakingPlan(v: unknown): v is StakingPlan {
+  if (!isRecord(v)) return false;
+  switch (v.kind) {
+    case 'flat': return isFiniteNumber(v.stake) && v.stake > 0;
+    case 'percent': return isFiniteNumber(v.percent) && v.percent > 0 && v.percent <= 1;
+    case 'kelly': return isFiniteNumber(v.fraction) && v.fraction > 0 && v.fraction <= 1;
+    case 'ladder': return Array.isArray(v.rungs) && v.rungs.every(r => isRecord(r) && isFiniteNumber(r.minOdds) && r.minOdds >= 1 && isFiniteNumber(r.stake) && r.stake >= 0);
+    default: return false;
+  }
+}
+
+// Splits migrated data into usable records and issues. Bad settings fall back to defaults one field at a time.
+export function checkLedger(data: RawLedger): { bets: Bet[]; state: AppState; issues: StorageIssue[] } {
+  const issues: StorageIssue[] = [];
+  const bets: Bet[] = [];
+
+  if (data.bets !== undefined && !Array.isArray(data.bets)) {
+    issues.push({ source: BETS_KEY, message: 'bets are not a list', record: data.bets });
+  } else {
+    for (const b of (data.bets ?? []) as unknown[]) {
+      const errors = validateBet(b);
+      if (errors.length) {
+        const label = isRecord(b) && typeof b.description === 'string' ? `"${b.description}"` : 'bet';
+        issues.push({ source: BETS_KEY, message: `${label}: ${errors.join(', ')}`, record: b });
+      } else {
+        bets.push(b as Bet);
+      }
+    }
+  }
+
+  const state: AppState = { ...DEFAULT_STATE, runs: [] };
+  const raw = data.state;
+  if (raw !== undefined && !isRecord(raw)) {
+    issues.push({ source: STATE_KEY, message: 'settings are not an object', record: raw });
+  } else if (isRecord(raw)) {
+    if (isFiniteNumber(raw.targetProfit) && raw.targetProfit > 0) state.targetProfit = raw.targetProfit;
+    else if (raw.targetProfit !== undefined) issues.push({ source: STATE_KEY, message: 'target profit reset to default', record: raw.targetProfit });
+    if (raw.startingBankroll === undefined || (isFiniteNumber(raw.startingBankroll) && raw.startingBankroll >= 0)) state.startingBankroll = raw.startingBankroll as number | undefined;
+    else issues.push({ source: STATE_KEY, message: 'starting bankroll reset to default', record: raw.startingBankroll });
+    if (raw.theme === 'dark' || raw.theme === 'light') state.theme = raw.theme;
+    if (Array.isArray(raw.sports)) {
+      state.sports = raw.sports.filter(isSportDef);
+      raw.sports.filter(d => !isSportDef(d)).forEach(d => issues.push({ source: STATE_KEY, message: 'sport: missing name or bad markets', record: d }));
+    }
+    if (Array.isArray(raw.quickRules)) {
+      state.quickRules = raw.quickRules.filter(isQuickRule);
+      raw.quickRules.filter(r => !isQuickRule(r)).forEach(r => issues.push({ source: STATE_KEY, message: 'quick entry rule: missing keyword or sport', record: r }));
+    }
+    if (ODDS_FORMATS.includes(raw.oddsFormat as OddsFormat)) state.oddsFormat = raw.oddsFormat as OddsFormat;
+    if (isStakingPlan(raw.stakingPlan)) state.stakingPlan = raw.stakingPlan;
+    else if (raw.stakingPlan !== undefined) issues.push({ source: STATE_KEY, message: 'staking plan reset to none', record: raw.stakingPlan });
+    if (CURRENCIES.includes(raw.baseCurrency as CurrencyCode)) state.baseCurrency = raw.baseCurrency as CurrencyCode;
+    for (const r of Array.isArray(raw.rates) ? raw.rates : []) {
+      const errors = validateRate(r);
+      if (errors.length) issues.push({ source: STATE_KEY, message: `exchange rate: ${errors.join(', ')}`, record: r });
+      else state.rates = [...(state.rates ?? []), r as ExchangeRate];
+    }
+    for (const a of Array.isArray(raw.accounts) ? raw.accounts : []) {
+      const errors = validateAccount(a);
+      if (errors.length) issues.push({ source: STATE_KEY, message: `account: ${errors.join(', ')}`, record: a });
+      else state.accounts = [...(state.accounts ?? []), a as BookmakerAccount];
+    }
+    for (const p of Array.isArray(raw.promotions) ? raw.promotions : []) {
+      if (isRecord(p) && typeof p.id === 'string' && p.id && typeof p.name === 'string' && p.name && isOptionalString(p.accountId)) {
+        state.promotions = [...(state.promotions ?? []), p as Promotion];
+      } else {
+        issues.push({ source: STATE_KEY, message: 'promotion: missing id or name', record: p });
+      }
+    }
+    for (const r of Array.isArray(raw.runs) ? raw.runs : []) {
+      const errors = validateRun(r);
+      if (errors.length) issues.push({ source: STATE_KEY, message: `challenge run: ${errors.join(', ')}`, record: r });
+      else state.runs = [...(state.runs ?? []), r as ChallengeRun];
+    }
+  }
+
+  return { bets, state, issues };
+}
+
+// -------- Load and save --------
+// The ledger lives in IndexedDB, see db.ts, one per profile. Earlier builds kept a single ledger in localStorage
+// under the keys above, which is moved into the default profile on its first load and then removed.
+
+function readLegacyJSON(key: string, issues: StorageIssue[]): unknown {
+  const raw = localStorage.getItem(key);
+  if (raw === null) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    if (key === BETS_KEY || key === STATE_KEY) issues.push({ source: key, message: 'stored data is not valid JSON', record: raw });
+    return undefined;
+  }
+}
+
+// Bets and settings JSON as last written per profile, so a save only touches what changed
+const savedBets = new Map<string, Map<string, Bet>>();
+const savedState = new Map<string, string>();
+const versionWritten = new Set<string>();
+
+export async function readQuarantine(): Promise<QuarantineEntry[]> {
+  const raw = await readMeta<unknown>('quarantine');
+  return Array.isArray(raw) ? raw : [];
+}
+
+export function clearQuarantine() {
+  return deleteMeta('quarantine');
+}
+
+// Adds records set aside elsewhere, such as by the server, and returns the ones that were not there yet
+export async function addToQuarantine(entries: QuarantineEntry[]): Promise<QuarantineEntry[]> {
+  const existing = await readQuarantine();
+  const seen = new Set(existing.map(q => q.source + JSON.stringify(q.record)));
+  const added = entries.filter(q => !seen.has(q.source + JSON.stringify(q.record)));
+  if (added.length) await writeMeta('quarantine', [...existing, ...added]);
+  return added;
+}
+
+// Reads, migrates and validates a profile's ledger. Anything unusable is moved to the quarantine rather than dropped.
+export async function loadLedger(profileId: string): Promise<LoadResult> {
+  const issues: StorageIssue[] = [];
+  const dbVersion = await readMeta<number>(ledgerKey('version', profileId));
+  const legacy = profileId === DEFAULT_PROFILE.id && dbVersion === undefined
+    && (localStorage.getItem(BETS_KEY) !== null || localStorage.getItem(STATE_KEY) !== null);
+  const storedVersion = legacy ? Number(localStorage.getItem(VERSION_KEY)) || 1 : dbVersion ?? SCHEMA_VERSION;
+  const hadBets = legacy ? localStorage.getItem(BETS_KEY) !== null : dbVersion !== undefined;
+  if (storedVersion > SCHEMA_VERSION) {
+    issues.push({ source: BETS_KEY, message: `data was saved by a newer version (schema ${storedVersion}), some fields may be ignored` });
+  }
+
+  const raw: RawLedger = legacy
+    ? { bets: readLegacyJSON(BETS_KEY, issues), state: readLegacyJSON(STATE_KEY, issues) }
+    : { bets: await readAllBets(profileId), state: await readMeta(ledgerKey('state', profileId)) };
+  const checked = checkLedger(migrateLedger(raw, storedVersion));
+  issues.push(...checked.issues);
+
+  // Both pages load on open, so skip records that are already set aside
+  const existing = legacy ? (readLegacyJSON(QUARANTINE_KEY, issues) as QuarantineEntry[] | undefined) ?? [] : await readQuarantine();
+  const seen = new Set(existing.map(q => q.source + JSON.stringify(q.record)));
+  const quarantined = issues.filter(i => i.record !== undefined && !seen.has(i.source + JSON.stringify(i.record)));
+  if (quarantined.length || legacy) {
+    const at = new Date().toISOString();
+    await writeMeta('quarantine', [...existing, ...quarantined.map(i => ({ ...i, quarantinedAt: at }))]);
+  }
+
+  // Rewritten whole after a migration, and whenever a bad record has to leave the bets store
+  const badBets = checked.issues.some(i => i.source === BETS_KEY && i.record !== undefined);
+  if (legacy || storedVersion < SCHEMA_VERSION || badBets) {
+    if (hadBets) await writeBets(profileId, checked.bets, [], true);
+    if (raw.state !== undefined) await writeMeta(ledgerKey('state', profileId), checked.state);
+    await writeMeta(ledgerKey('version', profileId), SCHEMA_VERSION);
+  }
+  if (legacy) {
+    const synced = readLegacyJSON(SYNC_KEY, issues);
+    if (synced !== undefined) await writeMeta(ledgerKey('synced', profileId), synced);
+    [BETS_KEY, STATE_KEY, VERSION_KEY, QUARANTINE_KEY, SYNC_KEY].forEach(k => localStorage.removeItem(k));
+  }
+
+  savedBets.set(profileId, new Map(checked.bets.map(b => [b.id, b])));
+  savedState.set(profileId, JSON.stringify(checked.state));
+  if (hadBets || legacy || storedVersion < SCHEMA_VERSION || badBets) versionWritten.add(profileId);
+  return { bets: checked.bets, state: checked.state, hadBets, issues };
+}
+
+// What the server held when this browser last synced, so offline edits can be told apart from remote ones
+export type SyncBaseline = {
+  bets: Record<string, string>; // id to the server's updatedAt
+  state: string | null; // settings JSON as last saved on the server
+  stateUpdatedAt: string | null;
+};
+
+export async function readSyncBaseline(profileId: string): Promise<SyncBaseline | null> {
+  const raw = await readMeta<unknown>(ledgerKey('synced', profileId));
+  return isRecord(raw) && isRecord(raw.bets) ? raw as SyncBaseline : null;
+}
+
+export function saveSyncBaseline(profileId: string, baseline: SyncBaseline) {
+  return writeMeta(ledgerKey('synced', profileId), baseline).catch(e => console.error('Could not save the sync baseline', e));
+}
+
+function markVersion(profileId: string) {
+  if (versionWritten.has(profileId)) return;
+  versionWritten.add(profileId);
+  return writeMeta(ledgerKey('version', profileId), SCHEMA_VERSION);
+}
+
+// Callers fire and forget, writes reach the database in the order they were made
+export function saveBets(profileId: string, bets: Bet[]) {
+  const before = savedBets.get(profileId);
+  const next = new Map(bets.map(b => [b.id, b]));
+  savedBets.set(profileId, next);
+  // Unchanged bets keep their object identity through every edit
+  const put = before ? bets.filter(b => before.get(b.id) !== b) : bets;
+  const remove = before ? Array.from(before.keys()).filter(id => !next.has(id)) : [];
+  if (before && !put.length && !remove.length) return Promise.resolve();
+  return writeBets(profileId, put, remove, !before)
+    .then(() => {
+      postToTabs({ kind: 'bets', profileId, put, remove });
+      return markVersion(profileId);
+    })
+    .catch(e => console.error('Could not save bets', e));
+}
+
+// Adds bets to a profile that is not open here. It picks them up, and sends them to the server, when next opened.
+export async function addBets(profileId: string, bets: Bet[]) {
+  await writeBets(profileId, bets, []);
+  postToTabs({ kind: 'bets', profileId, put: bets, remove: [] });
+  await markVersion(profileId);
+}
+
+// Another tab saved these, so the next save here need not write them again
+export function adoptTabBets(profileId: string, put: Bet[], remove: string[]) {
+  const saved = savedBets.get(profileId);
+  if (!saved) return;
+  put.forEach(b => saved.set(b.id, b));
+  remove.forEach(id => saved.delete(id));
+}
+
+export function adoptTabState(profileId: string, state: AppState) {
+  savedState.set(profileId, JSON.stringify(state));
+}
+
+export function saveState(profileId: string, state: AppState) {
+  const json = JSON.stringify(state);
+  if (savedState.get(profileId) === json) return Promise.resolve();
+  savedState.set(profileId, json);
+  return writeMeta(ledgerKey('state', profileId), state)
+    .then(() => {
+      postToTabs({ kind: 'state', profileId, state });
+      return markVersion(profileId);
+    })
+    .catch(e => console.error('Could not save settings', e));
+}
@@ -0,0 +1,266 @@
+import { Dispatch, SetStateAction, useCallback, useEffect, useRef, useState } from 'react';
+import { fetchBets, fetchState, putState, sendBetBatch, StateResponse } from './api';
+import { STORAGE_MODE } from './config';
+import { addToQuarantine, readSyncBaseline, saveBets, saveState, saveSyncBaseline, StorageIssue, SyncBaseline } from './storage';
+import { AppState, Bet } from './types';
+
+// Keeps the browser's ledger and the server's in step. Edits apply locally straight away and are pushed
+// in the background. A bet counts as edited here when its updatedAt differs from the server copy last seen.
+
+export type SyncStatus = 'local' | 'connecting' | 'synced' | 'saving' | 'offline';
+
+// Both sides changed the same record. The server's copy is showing until the user keeps theirs.
+export type SyncConflict =
+  | { kind: 'bet'; id: string; mine: Bet | null; theirs: Bet | null } // null when that side deleted it
+  | { kind: 'state'; mine: AppState; theirs: AppState };
+
+const EMPTY_BASELINE: SyncBaseline = { bets: {}, state: null, stateUpdatedAt: null };
+
+// -------- Merging --------
+// Three-way merge of the local list, the server list and the baseline they both started from
+export function mergeBets(local: Bet[], remote: Bet[], baseline: SyncBaseline) {
+  const seen = baseline.bets;
+  const remoteById = new Map(remote.map(b => [b.id, b]));
+  const localIds = new Set(local.map(b => b.id));
+  const bets: Bet[] = [];
+  const conflicts: SyncConflict[] = [];
+
+  for (const l of local) {
+    const r = remoteById.get(l.id);
+    const editedHere = l.updatedAt !== seen[l.id];
+    if (r) {
+      const editedThere = r.updatedAt !== seen[l.id];
+      if (editedHere && editedThere && r.updatedAt !== l.updatedAt) {
+        conflicts.push({ kind: 'bet', id: l.id, mine: l, theirs: r });
+        bets.push(r);
+      } else {
+        bets.push(editedHere ? l : r);
+      }
+    } else if (l.id in seen) {
+      // Deleted on the server, keep it only when it was edited here since
+      if (editedHere) conflicts.push({ kind: 'bet', id: l.id, mine: l, theirs: null });
+    } else {
+      bets.push(l); // new here, pushed next
+    }
+  }
+  for (const r of remote) {
+    if (localIds.has(r.id)) continue;
+    // Deleted here: the delete is pushed unless the server copy moved on in the meantime
+    if (r.id in seen && r.updatedAt !== seen[r.id]) conflicts.push({ kind: 'bet', id: r.id, mine: null, theirs: r });
+    if (!(r.id in seen) || r.updatedAt !== seen[r.id]) bets.push(r);
+  }
+  return { bets, conflicts, seen: Object.fromEntries(remote.map(b => [b.id, b.updatedAt])) };
+}
+
+// Bets to send and deletes to make, measured against the baseline
+export function pendingChanges(bets: Bet[], baseline: SyncBaseline) {
+  const ids = new Set(bets.map(b => b.id));
+  return {
+    upserts: bets.filter(b => b.updatedAt !== baseline.bets[b.id]).map(bet => ({ bet, baseUpdatedAt: baseline.bets[bet.id] })),
+    deletes: Object.entries(baseline.bets).filter(([id]) => !ids.has(id)).map(([id, baseUpdatedAt]) => ({ id, baseUpdatedAt })),
+  };
+}
+
+function replaceBet(list: Bet[], id: string, bet: Bet | null) {
+  const rest = list.filter(b => b.id !== id);
+  return bet ? [bet, ...rest] : rest;
+}
+
+// -------- Hook --------
+type Options = {
+  ready: boolean; // the local copy is loaded
+  profileId: string; // whose ledger bets and state are, changes together with them
+  bets: Bet[];
+  state: AppState;
+  setBets: Dispatch<SetStateAction<Bet[]>>;
+  setState: Dispatch<SetStateAction<AppState>>;
+};
+
+export function useServerSync({ ready, profileId, bets, state, setBets, setState }: Options) {
+  const [status, setStatus] = useState<SyncStatus>(STORAGE_MODE === 'local' ? 'local' : 'connecting');
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [connected, setConnected] = useState(false);
+  // Records the server set aside, shown once they reach the browser's quarantine
+  const [serverIssues, setServerIssues] = useState<StorageIssue[]>([]);
+
+  const latest = useRef({ bets, state });
+  latest.current = { bets, state };
+  const baseline = useRef<SyncBaseline>(EMPTY_BASELINE);
+  const busy = useRef(false);
+  const pushing = useRef(Promise.resolve());
+  const again = useRef(false);
+  // The profile the baseline belongs to, null until the first pull. Pushes wait for a pull of the open profile.
+  const syncedProfile = useRef<string | null>(null);
+  const profile = useRef(profileId);
+  profile.current = profileId;
+
+  const setBaseline = useCallback((next: SyncBaseline) => {
+    baseline.current = next;
+    saveSyncBaseline(profileId, next);
+  }, [profileId]);
+
+  // Server data is written to the browser copy at once, whichever page took it in, so it always matches the baseline
+  const applyBets = useCallback((next: Bet[]) => {
+    latest.current = { ...latest.current, bets: next };
+    saveBets(profileId, next);
+    setBets(next);
+  }, [profileId, setBets]);
+
+  const applyState = useCallback((next: AppState) => {
+    latest.current = { ...latest.current, state: next };
+    saveState(profileId, next);
+    setState(next);
+  }, [profileId, setState]);
+
+  const addConflicts = useCallback((found: SyncConflict[]) => {
+    if (!found.length) return;
+    setConflicts(cs => [
+      ...cs.filter(c => !found.some(f => (f.kind === 'state' ? c.kind === 'state' : c.kind === 'bet' && c.id === f.id))),
+      ...found,
+    ]);
+  }, []);
+
+  // Settings are one record, the server stamps each save
+  const adoptState = useCallback((remote: StateResponse, local: AppState, firstSync: boolean) => {
+    const base = baseline.current;
+    const editedHere = JSON.stringify(local) !== base.state;
+    const editedThere = remote.updatedAt !== base.stateUpdatedAt;
+    if (remote.state && editedThere) {
+      // A browser that never synced takes the server's settings without asking
+      if (editedHere && !firstSync && JSON.stringify(remote.state) !== JSON.stringify(local)) addConflicts([{ kind: 'state', mine: local, theirs: remote.state }]);
+      applyState(remote.state);
+    }
+    return { state: remote.state ? JSON.stringify(remote.state) : null, stateUpdatedAt: remote.updatedAt };
+  }, [addConflicts, applyState]);
+
+  const push = useCallback(async () => {
+    if (syncedProfile.current !== profileId) return;
+    if (busy.current) {
+      again.current = true;
+      return;
+    }
+    busy.current = true;
+    let done = () => {};
+    pushing.current = new Promise<void>(resolve => { done = resolve; });
+    try {
+      do {
+        again.current = false;
+        const { bets: localBets, state: localState } = latest.current;
+        const changes = pendingChanges(localBets, baseline.current);
+        const stateJson = JSON.stringify(localState);
+        if (!changes.upserts.length && !changes.deletes.length && stateJson === baseline.current.state) break;
+        setStatus('saving');
+
+        if (changes.upserts.length || changes.deletes.length) {
+          const result = await sendBetBatch(profileId, changes);
+          const seen = { ...baseline.current.bets };
+          result.saved.forEach(b => { seen[b.id] = b.updatedAt; });
+          result.deleted.forEach(id => { delete seen[id]; });
+          const found: SyncConflict[] = [];
+          for (const c of result.conflicts) {
+            if (c.current) seen[c.id] = c.current.updatedAt;
+            else delete seen[c.id];
+            // Another tab already sent this exact version
+            if (c.current && c.current.updatedAt === localBets.find(b => b.id === c.id)?.updatedAt) continue;
+            found.push({ kind: 'bet', id: c.id, mine: localBets.find(b => b.id === c.id) ?? null, theirs: c.current });
+          }
+          setBaseline({ ...baseline.current, bets: seen });
+          // Switched profile meanwhile, the page now shows another ledger. The next pull of this one shows the conflicts.
+          if (profile.current !== profileId) break;
+          if (found.length) {
+            applyBets(found.reduce((acc, c) => (c.kind === 'bet' ? replaceBet(acc, c.id, c.theirs) : acc), latest.current.bets));
+            addConflicts(found);
+          }
+        }
+
+        if (stateJson !== baseline.current.state) {
+          const res = await putState(profileId, { state: localState, baseUpdatedAt: baseline.current.stateUpdatedAt });
+          if (profile.current !== profileId) {
+            // As above, a refused save is left for the next pull of this profile to show
+            if (res.ok) setBaseline({ ...baseline.current, state: res.state ? JSON.stringify(res.state) : null, stateUpdatedAt: res.updatedAt });
+            break;
+          }
+          if (!res.ok && res.state) {
+            addConflicts([{ kind: 'state', mine: localState, theirs: res.state }]);
+            applyState(res.state);
+          } else if (res.state && JSON.stringify(latest.current.state) === stateJson) {
+            // Take the server's validated copy so the two compare equal, unless it was edited again meanwhile
+            applyState(res.state);
+          }
+          setBaseline({ ...baseline.current, state: res.state ? JSON.stringify(res.state) : null, stateUpdatedAt: res.updatedAt });
+        }
+      } while (again.current);
+      setStatus('synced');
+    } catch {
+      setStatus('offline');
+    } finally {
+      busy.current = false;
+      done();
+    }
+  }, [profileId, applyBets, applyState, setBaseline, addConflicts]);
+
+  // Fetches the server's copy and merges it in, on open and whenever the page comes back into view
+  const pull = useCallback(async () => {
+    if (STORAGE_MODE === 'local') return;
+    const first = syncedProfile.current !== profileId;
+    // A push in flight owns the baseline, the next focus or reconnect will pull. A newly opened profile waits for it.
+    if (busy.current) {
+      if (!first) return;
+      await pushing.current;
+    }
+    try {
+      const [remoteBets, remoteState] = await Promise.all([fetchBets(profileId), fetchState(profileId)]);
+      // The stored baseline covers edits made offline before this page or profile opened
+      const stored = first ? await readSyncBaseline(profileId) : null;
+      if (profile.current !== profileId) return;
+      const neverSynced = first && !stored;
+      if (first) {
+        baseline.current = stored ?? EMPTY_BASELINE;
+        setConflicts([]);
+      }
+      const merged = mergeBets(latest.current.bets, remoteBets, baseline.current);
+      const stateBase = adoptState(remoteState, latest.current.state, neverSynced);
+      setBaseline({ bets: merged.seen, ...stateBase });
+      applyBets(merged.bets);
+      addConflicts(merged.conflicts);
+      const added = await addToQuarantine(remoteState.quarantined ?? []);
+      if (added.length) setServerIssues(is => [...is, ...added.map(q => ({ ...q, message: `on the server: ${q.message}` }))]);
+      syncedProfile.current = profileId;
+      setConnected(true);
+      setStatus('synced');
+    } catch {
+      setStatus('offline');
+    }
+  }, [profileId, applyBets, setBaseline, adoptState, addConflicts]);
+
+  useEffect(() => {
+    if (!ready || STORAGE_MODE === 'local') return;
+    pull();
+    const onVisible = () => { if (document.visibilityState === 'visible') pull(); };
+    document.addEventListener('visibilitychange', onVisible);
+    window.addEventListener('online', pull);
+    return () => {
+      document.removeEventListener('visibilitychange', onVisible);
+      window.removeEventListener('online', pull);
+    };
+  }, [ready, pull]);
+
+  // Optimistic: local state already shows the edit, this only sends it
+  useEffect(() => {
+    if (connected) push();
+  }, [bets, state, connected, push]);
+
+  function keepMine(conflict: SyncConflict) {
+    const now = new Date().toISOString();
+    // A fresh updatedAt marks it as edited here, so the next push sends it over the server's copy
+    if (conflict.kind === 'state') applyState({ ...conflict.mine });
+    else applyBets(replaceBet(latest.current.bets, conflict.id, conflict.mine && { ...conflict.mine, updatedAt: now }));
+    setConflicts(cs => cs.filter(c => c !== conflict));
+  }
+
+  function keepTheirs(conflict: SyncConflict) {
+    setConflicts(cs => cs.filter(c => c !== conflict));
+  }
+
+  return { status, conflicts, serverIssues, dismissServerIssues: () => setServerIssues([]), keepMine, keepTheirs, retry: pull };
+}
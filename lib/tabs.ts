@@ -0,0 +1,57 @@
+import { Dispatch, SetStateAction, useEffect, useRef } from 'react';
+import { listenToTabs } from './channel';
+import { adoptTabBets, adoptTabState } from './storage';
+import { AppState, Bet } from './types';
+
+// Keeps pages open in other tabs of this browser in step, see channel.ts
+
+// Bets another tab saved, taken when they are newer than the copy here. Deletes always win.
+export function mergeFromTab(list: Bet[], put: Bet[], remove: string[]) {
+  const incoming = new Map(put.map(b => [b.id, b]));
+  const gone = new Set(remove);
+  let changed = false;
+  const next = list.flatMap(b => {
+    const theirs = incoming.get(b.id);
+    incoming.delete(b.id);
+    if (gone.has(b.id)) {
+      changed = true;
+      return [];
+    }
+    if (theirs && theirs.updatedAt > b.updatedAt) {
+      changed = true;
+      return [theirs];
+    }
+    return [b];
+  });
+  if (incoming.size) changed = true;
+  // Unchanged keeps the same array, so nothing re-renders or saves
+  return changed ? [...incoming.values(), ...next] : list;
+}
+
+type Options = {
+  ready: boolean;
+  profileId: string;
+  setBets: Dispatch<SetStateAction<Bet[]>>;
+  setState: Dispatch<SetStateAction<AppState>>;
+  onBetsChanged?: (put: Bet[], remove: string[]) => void; // after another tab saved bets of this profile
+};
+
+export function useTabSync({ ready, profileId, setBets, setState, onBetsChanged }: Options) {
+  const notify = useRef(onBetsChanged);
+  notify.current = onBetsChanged;
+
+  useEffect(() => {
+    if (!ready) return;
+    return listenToTabs(message => {
+      if (message.kind === 'profiles' || message.profileId !== profileId) return;
+      if (message.kind === 'state') {
+        adoptTabState(profileId, message.state);
+        setState(message.state);
+        return;
+      }
+      adoptTabBets(profileId, message.put, message.remove);
+      setBets(list => mergeFromTab(list, message.put, message.remove));
+      notify.current?.(message.put, message.remove);
+    });
+  }, [ready, profileId, setBets, setState]);
+}
@@ -0,0 +1,139 @@
+import { effectiveReturn, isBetSettled, outcomeWeight } from './bets';
+import { Interval, roiInterval, wilsonInterval } from './stats';
+import { AppState, Bet, DEFAULT_SPORTS, Sport, SportDef } from './types';
+
+// User defined sports, markets and tags, and the breakdowns grouped by them
+
+export function sportDefs(state: AppState): SportDef[] {
+  return state.sports ?? DEFAULT_SPORTS;
+}
+
+// Defined sports first, then any a bet still uses after its sport was renamed or came in from an import
+export function sportNames(state: AppState, bets: Bet[] = []): Sport[] {
+  const names = sportDefs(state).map(d => d.name);
+  const extra = new Set(bets.map(b => b.sport).filter(s => !names.includes(s)));
+  return [...names, ...Array.from(extra).sort()];
+}
+
+export function marketsFor(state: AppState, sport: Sport): string[] {
+  return sportDefs(state).find(d => d.name === sport)?.markets ?? [];
+}
+
+// Case-insensitive lookup against the defined sports, soccer is a common alias
+export function matchSport(state: AppState, raw: string): Sport | null {
+  const t = raw.trim().toLowerCase();
+  if (!t) return null;
+  const names = sportDefs(state).map(d => d.name);
+  return names.find(s => s.toLowerCase() === t) ?? (t === 'soccer' ? names.find(s => s === 'Football') ?? null : null);
+}
+
+// Comma separated, trimmed and deduplicated ignoring case
+export function parseTags(raw: string): string[] {
+  const out: string[] = [];
+  for (const t of raw.split(',').map(s => s.trim()).filter(Boolean)) {
+    if (!out.some(o => o.toLowerCase() === t.toLowerCase())) out.push(t);
+  }
+  return out;
+}
+
+export function allTags(bets: Bet[]): string[] {
+  return Array.from(new Set(bets.flatMap(b => b.tags ?? []))).sort((a, b) => a.localeCompare(b));
+}
+
+// -------- Events --------
+function distinct(values: (string | undefined)[]): string[] {
+  return Array.from(new Set(values.filter((v): v is string => !!v))).sort((a, b) => a.localeCompare(b));
+}
+
+// Previously used competitions, those of the sport first when one is given
+export function allCompetitions(bets: Bet[], sport?: Sport): string[] {
+  const all = distinct(bets.map(b => b.competition));
+  if (!sport) return all;
+  const own = distinct(bets.filter(b => b.sport === sport).map(b => b.competition));
+  return [...own, ...all.filter(c => !own.includes(c))];
+}
+
+// Previously used teams and players from either side, those seen in the competition first when one is given
+export function allTeams(bets: Bet[], competition?: string): string[] {
+  const all = distinct(bets.flatMap(b => [b.home, b.away]));
+  if (!competition) return all;
+  const own = distinct(bets.filter(b => b.competition === competition).flatMap(b => [b.home, b.away]));
+  return [...own, ...all.filter(t => !own.includes(t))];
+}
+
+// "Arsenal v Chelsea", or whichever side is known
+export function fixture(bet: Pick<Bet, 'home' | 'away'>): string {
+  return [bet.home, bet.away].filter(Boolean).join(' v ');
+}
+
+// -------- Breakdowns --------
+export type Dimension = 'sport' | 'market' | 'tag' | 'competition' | 'team';
+export const DIMENSIONS: Dimension[] = ['sport', 'market', 'tag', 'competition', 'team'];
+export const DIMENSION_LABEL: Record<Dimension, string> = { sport: 'Sport', market: 'Market', tag: 'Tag', competition: 'Competition', team: 'Team or player' };
+
+// Groups a bet falls into. A bet with several tags counts once under each, and once under each side of its event.
+export function groupKeys(bet: Bet, dimension: Dimension): string[] {
+  switch (dimension) {
+    case 'sport': return [bet.sport];
+    case 'market': return [`${bet.sport} · ${bet.market ?? 'No market'}`];
+    case 'tag': return bet.tags?.length ? bet.tags : ['Untagged'];
+    case 'competition': return [bet.competition ?? 'No competition'];
+    case 'team': {
+      const sides = distinct([bet.home, bet.away]);
+      return sides.length ? sides : ['No team'];
+    }
+  }
+}
+
+export type BreakdownRow = {
+  group: string;
+  bets: number;
+  settled: number;
+  staked: number;
+  returned: number;
+  profit: number;
+  roi: number;
+  winRate: number;
+  roiCi: Interval | null; // 95%, bootstrapped
+  winRateCi: Interval | null; // 95%, Wilson
+};
+
+// Staked, returned and win rate per group, from settled bets. Pass cash bets in the base currency.
+export function breakdown(bets: Bet[], dimension: Dimension): BreakdownRow[] {
+  type Stat = { bets: number; settled: number; weight: number; wins: number; staked: number; returned: number; results: { stake: number; ret: number }[] };
+  const m = new Map<string, Stat>();
+  for (const b of bets) {
+    for (const key of groupKeys(b, dimension)) {
+      const cur = m.get(key) ?? { bets: 0, settled: 0, weight: 0, wins: 0, staked: 0, returned: 0, results: [] };
+      cur.bets += 1;
+      if (isBetSettled(b)) {
+        // weight and wins are outcome weighted, see outcomeWeight
+        const w = outcomeWeight(b.status);
+        cur.settled += 1;
+        cur.weight += w.settled;
+        cur.wins += w.won;
+        cur.staked += b.stake;
+        cur.returned += effectiveReturn(b) ?? 0;
+        cur.results.push({ stake: b.stake, ret: effectiveReturn(b) ?? 0 });
+      }
+      m.set(key, cur);
+    }
+  }
+  return Array.from(m.entries())
+    .map(([group, v]) => {
+      const profit = +(v.returned - v.staked).toFixed(2);
+      return {
+        group,
+        bets: v.bets,
+        settled: v.settled,
+        staked: +v.staked.toFixed(2),
+        returned: +v.returned.toFixed(2),
+        profit,
+        roi: v.staked > 0 ? profit / v.staked : 0,
+        winRate: v.weight > 0 ? v.wins / v.weight : 0,
+        roiCi: roiInterval(v.results),
+        winRateCi: wilsonInterval(v.wins, v.weight),
+      };
+    })
+    .sort((a, b) => b.profit - a.profit);
+}
@@ -0,0 +1,197 @@
+// Shared data model for the tracker and insights pages
+
+// Sports and their markets are user defined, see AppState.sports
+export type Sport = string;
+// Half results are Asian handicap quarter lines, Placed is an each-way bet that only paid the place part
+export type BetStatus = 'Pending' | 'Won' | 'Lost' | 'Void' | 'Half Won' | 'Half Lost' | 'Placed';
+
+export const BET_STATUSES: BetStatus[] = ['Pending', 'Won', 'Half Won', 'Placed', 'Void', 'Half Lost', 'Lost'];
+
+// A sport and the markets offered for it, in the order the selects list them
+export type SportDef = {
+  name: Sport;
+  markets: string[];
+};
+
+export const DEFAULT_SPORTS: SportDef[] = [
+  { name: 'Football', markets: ['Result', 'Double Chance', 'Goals', 'Corners', 'Other'] },
+  { name: 'Cricket', markets: ['Match result', 'Top batter'] },
+  { name: 'Tennis', markets: ['Match winner', 'Set betting', 'Games handicap'] },
+  { name: 'Other', markets: [] },
+];
+
+// Quick entry picks the sport and market from a keyword in the typed bet, see AppState.quickRules.
+// A rule without a market names the sport alone.
+export type QuickRule = {
+  id: string;
+  keyword: string; // matched as whole words, ignoring case
+  sport: Sport;
+  market?: string;
+};
+
+export const DEFAULT_QUICK_RULES: QuickRule[] = [
+  { id: 'corners', keyword: 'corners', sport: 'Football', market: 'Corners' },
+  { id: 'btts', keyword: 'btts', sport: 'Football', market: 'Goals' },
+  { id: 'goals', keyword: 'goals', sport: 'Football', market: 'Goals' },
+  { id: 'double-chance', keyword: 'double chance', sport: 'Football', market: 'Double Chance' },
+  { id: 'top-batter', keyword: 'top batter', sport: 'Cricket', market: 'Top batter' },
+  { id: 'sets', keyword: 'sets', sport: 'Tennis', market: 'Set betting' },
+  { id: 'soccer', keyword: 'soccer', sport: 'Football' },
+];
+
+export type CurrencyCode = 'GBP' | 'EUR' | 'USD' | 'AUD' | 'CAD';
+export const CURRENCIES: CurrencyCode[] = ['GBP', 'EUR', 'USD', 'AUD', 'CAD'];
+
+// One unit of `from` was worth `rate` units of `to` from `date` until the next quote
+export type ExchangeRate = {
+  id: string;
+  date: string; // yyyy-mm-dd
+  from: CurrencyCode;
+  to: CurrencyCode;
+  rate: number;
+};
+
+// One selection inside a multiple. A void leg drops out of the combined odds.
+export type LegStatus = 'Pending' | 'Won' | 'Lost' | 'Void';
+export const LEG_STATUSES: LegStatus[] = ['Pending', 'Won', 'Lost', 'Void'];
+
+export type BetLeg = {
+  id: string;
+  description: string;
+  sport: Sport;
+  market?: string;
+  oddsDecimal: number;
+  status: LegStatus;
+};
+
+export type EachWayTerms = {
+  placeFraction: number; // share of the win odds paid for a place, 0.2 for 1/5
+  places: number;
+};
+
+// Money taken out of a running bet. A full cash out releases whatever stake is left.
+export type CashOut = {
+  id: string;
+  at: string; // ISO
+  amount: number; // received, in the bet's currency
+  stake: number; // stake released by this cash out, in the bet's currency
+};
+
+export type Bet = {
+  id: string;
+  date: string; // yyyy-mm-dd
+  description: string;
+  sport: Sport;
+  market?: string;
+  tags?: string[]; // free-form labels such as a tipster or a strategy
+  competition?: string; // league, tournament or race meeting
+  home?: string; // home team or first player named
+  away?: string; // away team or opponent
+  kickoff?: string; // yyyy-mm-ddThh:mm local time the event starts
+  betRef?: string; // bookmaker's reference, from a pasted slip
+  placedAt?: string; // yyyy-mm-ddThh:mm local time the bookmaker took it, when known
+  stake: number; // in the bet's currency
+  stakeType?: StakeType; // Cash when absent
+  promotionId?: string; // offer the bet used or qualified for
+  currency?: CurrencyCode; // GBP when absent, every money field on the bet uses it
+  oddsDecimal: number; // combined odds of the legs for a multiple
+  closingOdds?: number; // decimal price when the market closed, for closing line value
+  status: BetStatus; // derived from the legs for a multiple
+  legs?: BetLeg[]; // set for doubles, trebles and accas
+  eachWay?: EachWayTerms; // stake covers both parts, half each
+  cashOuts?: CashOut[]; // return comes from these plus whatever stake is still running
+  returnOverride?: number; // manual value when nothing else explains the return
+  settledAt?: string; // ISO timestamp when status was set from Pending
+  parentId?: string; // bet whose return was rolled into this stake
+  chainId?: string; // shared by every step of a roller, equals the first step's id
+  runId?: string; // challenge run this bet belongs to
+  accountId?: string; // bookmaker account the stake came out of
+  probability?: number; // user's own chance of winning, 0 to 1, entered for Kelly staking
+  createdAt: string; // ISO
+  updatedAt: string; // ISO
+};
+
+// A challenge run rolls its starting stake through successive bets until it hits the target or loses
+export type ChallengeRun = {
+  id: string;
+  startedAt: string; // ISO
+  startStake: number; // starting bankroll when the run began
+  target: number; // target profit when the run began
+  abandonedAt?: string; // ISO, set when given up before hitting the target or busting
+};
+export type RunOutcome = 'Running' | 'Hit' | 'Bust' | 'Abandoned';
+
+// Where a stake's money came from. A free bet keeps only the winnings, bonus funds return the stake too,
+// and neither costs the user any cash.
+export type StakeType = 'Cash' | 'Free bet' | 'Bonus';
+export const STAKE_TYPES: StakeType[] = ['Cash', 'Free bet', 'Bonus'];
+
+// A named offer such as a weekly free bet or a deposit bonus, optionally tied to an account
+export type Promotion = {
+  id: string;
+  name: string;
+  accountId?: string;
+};
+
+// Money moved in or out of a bookmaker account by hand. Amounts are positive, the kind gives the direction.
+export type TransactionKind = 'Deposit' | 'Withdrawal' | 'Bonus';
+export const TRANSACTION_KINDS: TransactionKind[] = ['Deposit', 'Withdrawal', 'Bonus'];
+
+export type AccountTransaction = {
+  id: string;
+  date: string; // yyyy-mm-dd
+  kind: TransactionKind;
+  amount: number; // in the account's currency
+  note?: string;
+};
+
+// A bookmaker account, its balance is the ledger plus every bet placed from it
+export type BookmakerAccount = {
+  id: string;
+  name: string;
+  currency: CurrencyCode;
+  transactions: AccountTransaction[];
+};
+
+// How the add form recommends a stake. Amounts are in the base currency.
+export type LadderRung = { minOdds: number; stake: number }; // stake for odds from minOdds up to the next rung
+export type StakingPlan =
+  | { kind: 'flat'; stake: number }
+  | { kind: 'percent'; percent: number } // share of bankroll, 0.02 for 2%
+  | { kind: 'kelly'; fraction: number } // 1 for full Kelly, 0.25 for quarter
+  | { kind: 'ladder'; rungs: LadderRung[] };
+export type StakingPlanKind = StakingPlan['kind'];
+
+export type OddsFormat = 'decimal' | 'fractional' | 'american';
+export const ODDS_FORMATS: OddsFormat[] = ['decimal', 'fractional', 'american'];
+
+export type AppState = {
+  targetProfit: number;
+  startingBankroll?: number;
+  theme: 'dark' | 'light';
+  sports?: SportDef[]; // DEFAULT_SPORTS when absent
+  quickRules?: QuickRule[]; // DEFAULT_QUICK_RULES when absent, checked in order
+  oddsFormat?: OddsFormat; // display and input only, storage is always decimal
+  baseCurrency?: CurrencyCode; // totals and charts convert into this, GBP when absent
+  rates?: ExchangeRate[];
+  accounts?: BookmakerAccount[];
+  promotions?: Promotion[];
+  stakingPlan?: StakingPlan; // no recommendation when absent
+  runs?: ChallengeRun[];
+};
+
+// A separate ledger with its own bets and settings, for several people or rollers in one browser
+export type Profile = { id: string; name: string };
+export const DEFAULT_PROFILE: Profile = { id: 'default', name: 'Main' };
+
+// One change to a bet made in this browser, kept for the audit trail
+export type BetEventKind = 'create' | 'edit' | 'settle' | 'delete';
+export type BetEvent = {
+  id: string;
+  betId: string;
+  at: string; // ISO
+  kind: BetEventKind;
+  before: Bet | null; // null for a create
+  after: Bet | null; // null for a delete
+  via?: 'undo' | 'redo';
+};
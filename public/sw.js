@@ -0,0 +1,116 @@
+// Offline support for the installed app. Pages are network first with the last copy as a fallback,
+// build assets never change under the same URL so they are cache first. The API is left alone,
+// the sync layer already copes with being offline.
+
+// One cache across deploys, this file does not change with the build. A page naming assets that are not cached yet
+// is from a new build, the other pages are brought up to it and assets no cached page names are dropped.
+const CACHE = 'roller-bets-v1';
+const PAGES = ['/', '/insights'];
+const STATIC = ['/manifest.webmanifest', '/icon.svg'];
+
+// Scripts, styles and fonts a page's HTML names, also inside the escaped strings of the inline RSC payload
+function assetsOf(html) {
+  return Array.from(new Set(html.match(/\/_next\/static\/[^"'\s\\)?#]+/g) ?? []));
+}
+
+async function cacheAssets(cache, paths) {
+  await Promise.all(paths.map(async path => {
+    if (await cache.match(path)) return;
+    const response = await fetch(path).catch(() => null);
+    if (response?.ok) await cache.put(path, response);
+  }));
+}
+
+// Pages are kept by path, any query string only carries filters. Returns whether the page named assets not cached yet.
+async function storePage(cache, path, response) {
+  const assets = assetsOf(await response.clone().text());
+  await cache.put(path, response);
+  const cached = await Promise.all(assets.map(a => cache.match(a)));
+  const missing = assets.filter((_, i) => !cached[i]);
+  await cacheAssets(cache, missing);
+  return missing.length > 0;
+}
+
+async function fetchPage(cache, path) {
+  const response = await fetch(path, { cache: 'no-store' });
+  if (!response.ok) throw new Error(`${path} returned ${response.status}`);
+  return storePage(cache, path, response);
+}
+
+async function pruneAssets(cache) {
+  const requests = await cache.keys();
+  const used = new Set();
+  for (const request of requests) {
+    if (new URL(request.url).pathname.startsWith('/_next/static/')) continue;
+    const response = await cache.match(request);
+    if (response?.headers.get('content-type')?.includes('text/html')) assetsOf(await response.text()).forEach(a => used.add(a));
+  }
+  await Promise.all(requests
+    .filter(r => { const path = new URL(r.url).pathname; return path.startsWith('/_next/static/') && !used.has(path); })
+    .map(r => cache.delete(r)));
+}
+
+async function updateBuild(cache, except) {
+  await Promise.all(PAGES.filter(p => p !== except).map(p => fetchPage(cache, p).catch(() => undefined)));
+  await pruneAssets(cache);
+}
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(CACHE);
+    await cache.addAll(STATIC);
+    for (const page of PAGES) await fetchPage(cache, page);
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    await Promise.all(keys.filter(k => k !== CACHE).map(k => caches.delete(k)));
+    await pruneAssets(await caches.open(CACHE));
+    await self.clients.claim();
+  })());
+});
+
+// The open page's assets loaded before the worker was running, sent by components/ServiceWorker.tsx.
+// This also catches chunks a page loads later than its HTML.
+self.addEventListener('message', event => {
+  if (event.data?.kind !== 'cache-assets' || !Array.isArray(event.data.paths)) return;
+  const paths = event.data.paths.filter(p => typeof p === 'string' && p.startsWith('/_next/static/'));
+  event.waitUntil(caches.open(CACHE).then(cache => cacheAssets(cache, paths)));
+});
+
+async function networkFirst(event, url) {
+  const { request } = event;
+  const cache = await caches.open(CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok && request.mode === 'navigate' && response.headers.get('content-type')?.includes('text/html')) {
+      event.waitUntil(storePage(cache, url.pathname, response.clone()).then(newBuild => newBuild && updateBuild(cache, url.pathname)));
+    } else if (response.ok) {
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch {
+    if (request.mode === 'navigate') return (await cache.match(url.pathname)) ?? (await cache.match('/')) ?? Response.error();
+    return (await cache.match(request, { ignoreSearch: true })) ?? Response.error();
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(CACHE);
+  const hit = await cache.match(request, { ignoreSearch: true });
+  if (hit) return hit;
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+  if (url.pathname.startsWith('/_next/static/')) event.respondWith(cacheFirst(request));
+  else event.respondWith(networkFirst(event, url));
+});
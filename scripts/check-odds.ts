@@ -0,0 +1,37 @@
+import { formatOdds, parseOdds } from '../lib/odds';
+
+// Fractional display of stored prices, and that an exact one reads back as the same price. Run with `npm run check:odds`.
+
+// The third entry marks a price that is only close to its fraction
+const FRACTIONS: [number, string, 'close'?][] = [
+  [1.01, '1/100'],
+  [1.02, '1/50'],
+  [1.05, '1/20'],
+  [1.25, '1/4'],
+  [1.4, '2/5'],
+  [1.667, '4/6'],
+  [1.67, '4/6', 'close'],
+  [1.727, '8/11'],
+  [1.91, '10/11', 'close'],
+  [2, 'Evens'],
+  [2.1, '11/10'],
+  [2.625, '13/8'],
+  [3.5, '5/2'],
+  [5.5, '9/2'],
+  [11, '10/1'],
+];
+
+let failed = 0;
+for (const [decimal, want, close] of FRACTIONS) {
+  const shown = formatOdds(decimal, 'fractional');
+  const back = parseOdds(shown);
+  const problems = [
+    ...(shown !== want ? [`expected ${want}, got ${shown}`] : []),
+    ...(!close && back !== decimal ? [`${shown} reads back as ${back}`] : []),
+  ];
+  if (problems.length) failed++;
+  console.log(`${problems.length ? 'FAIL' : 'ok  '} ${decimal}${problems.length ? `: ${problems.join(', ')}` : ''}`);
+}
+
+console.log(`${FRACTIONS.length - failed} of ${FRACTIONS.length} prices shown as expected`);
+if (failed) process.exit(1);
@@ -0,0 +1,32 @@
+import { parseSlip } from '../lib/slips';
+import { SAMPLE_SLIPS } from '../lib/slipSamples';
+
+// Reads every sample slip and compares the result with its expectation. Run with `npm run check:slips`.
+
+const show = (v: unknown) => (v === undefined ? 'nothing' : JSON.stringify(v));
+
+let failed = 0;
+for (const sample of SAMPLE_SLIPS) {
+  const slip = parseSlip(sample.text);
+  const { selections, unread = [], ...fields } = sample.expected;
+  const problems: string[] = [];
+  for (const [key, want] of Object.entries(fields)) {
+    const got = slip[key as keyof typeof fields];
+    if (got !== want) problems.push(`${key}: expected ${show(want)}, got ${show(got)}`);
+  }
+  // Optional fields are compared too, a market read where none was expected is a change
+  const read = slip.selections.map(s => ({ description: s.description, odds: s.odds, market: s.market, event: s.event }));
+  const want = selections.map(s => ({ description: s.description, odds: s.odds, market: s.market, event: s.event }));
+  for (let i = 0; i < Math.max(read.length, want.length); i++) {
+    if (JSON.stringify(read[i]) !== JSON.stringify(want[i])) problems.push(`selection ${i + 1}: expected ${show(want[i])}, got ${show(read[i])}`);
+  }
+  const unreadLines = slip.lines.filter(l => !l.read && l.text).map(l => l.text);
+  if (JSON.stringify(unreadLines) !== JSON.stringify(unread)) problems.push(`unread lines: expected ${show(unread)}, got ${show(unreadLines)}`);
+
+  if (problems.length) failed++;
+  console.log(`${problems.length ? 'FAIL' : 'ok  '} ${sample.name}`);
+  problems.forEach(p => console.log(`     ${p}`));
+}
+
+console.log(`${SAMPLE_SLIPS.length - failed} of ${SAMPLE_SLIPS.length} sample slips read as expected`);
+if (failed) process.exit(1);